@@ -24,6 +24,8 @@ export default [
         module: 'readonly',
         require: 'readonly',
         exports: 'readonly',
+        setTimeout: 'readonly',
+        AbortSignal: 'readonly',
       },
     },
     plugins: {
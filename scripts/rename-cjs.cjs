@@ -9,10 +9,40 @@ const targetDir = path.join(__dirname, '..', 'dist');
 // Files to rename to .cjs
 const filesToRename = [
   'index.js',
+  'index.node.js',
   'spark-id.js',
+  'spark-id.node.js',
+  'stream.js',
+  'store.js',
+  'zod.js',
+  'valibot.js',
+  'yup.js',
+  'json-schema.js',
   'cli.js',
   'types.js',
   'lib/secure-id.js',
+  'lib/errors.js',
+  'lib/config.js',
+  'lib/collision.js',
+  'lib/encoding.js',
+  'lib/timestamp.js',
+  'lib/machine-id.js',
+  'lib/alphabets.js',
+  'lib/crockford.js',
+  'lib/checksum.js',
+  'lib/id-type.js',
+  'lib/random.js',
+  'lib/random-node.js',
+  'lib/stream.js',
+  'lib/stream-node.js',
+  'lib/unique.js',
+  'lib/store-node.js',
+  'lib/pattern.js',
+  'lib/scan.js',
+  'lib/schema.js',
+  'lib/zod.js',
+  'lib/valibot.js',
+  'lib/yup.js',
 ];
 
 // Rename files
@@ -38,7 +38,15 @@ echo "8. Parse test:"
 pnpm spark-id --parse "$TEST_ID"
 
 echo ""
-echo "9. Help:"
+echo "9. Collision risk:"
+pnpm spark-id collision --bits 72 --rate 1000 --duration 1y
+
+echo ""
+echo "10. Scan:"
+echo "Created $TEST_ID, then TEST_NOT!AN_ID." | pnpm spark-id scan -p TEST
+
+echo ""
+echo "11. Help:"
 pnpm spark-id --help
 
 echo ""
@@ -1,15 +1,44 @@
 #!/usr/bin/env node
 
+import { readFileSync } from 'fs';
+import '../lib/random-node';
+import { estimateCollisionRisk } from '../lib/collision';
+import { findIds } from '../lib/scan';
 import { generateId, isValidId, parseId } from '../lib/secure-id';
+import type { SparkIdConfig } from '../types';
 
 interface CliOptions {
   prefix?: string;
+  prefixes?: string[];
   count?: number;
   validate?: string;
   parse?: string;
   help?: boolean;
   format?: 'json' | 'text' | 'csv';
   examples?: boolean;
+  command?: string;
+  files?: string[];
+  bits?: number;
+  encoding?: SparkIdConfig['encoding'];
+  length?: number;
+  rate?: number;
+  duration?: number;
+  threshold?: number;
+}
+
+// Seconds per duration unit
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+  y: 31536000,
+};
+
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)([smhdwy])?$/.exec(value ?? '');
+  return match ? Number(match[1]) * DURATION_UNITS[match[2] ?? 's'] : NaN;
 }
 
 function parseArgs(): CliOptions {
@@ -23,10 +52,11 @@ function parseArgs(): CliOptions {
       case '--prefix':
       case '-p':
         options.prefix = args[++i];
+        options.prefixes = [...(options.prefixes ?? []), options.prefix];
         break;
       case '--count':
       case '-c':
-        options.count = parseInt(args[++i], 10);
+        options.count = Number(args[++i]);
         break;
       case '--validate':
       case '-v':
@@ -47,6 +77,33 @@ function parseArgs(): CliOptions {
       case '-h':
         options.help = true;
         break;
+      case '--bits':
+        options.bits = Number(args[++i]);
+        break;
+      case '--encoding':
+        options.encoding = args[++i] as SparkIdConfig['encoding'];
+        break;
+      case '--length':
+        options.length = Number(args[++i]);
+        break;
+      case '--rate':
+        options.rate = Number(args[++i]);
+        break;
+      case '--duration':
+        options.duration = parseDuration(args[++i]);
+        break;
+      case '--threshold':
+        options.threshold = Number(args[++i]);
+        break;
+      default:
+        if (
+          options.command !== undefined &&
+          (arg === '-' || !arg.startsWith('-'))
+        ) {
+          options.files = [...(options.files ?? []), arg];
+        } else if (!arg.startsWith('-')) {
+          options.command = arg;
+        }
     }
   }
 
@@ -59,6 +116,12 @@ function showHelp() {
 
 Usage:
   spark-id [options]
+  spark-id collision [options]
+  spark-id scan [options] [file...]
+
+Commands:
+  collision                  Estimate the collision risk for an ID volume
+  scan                       Find IDs in files, or stdin if none (or -) given
 
 Options:
   -p, --prefix <prefix>      Add prefix to generated IDs (e.g., USER, TXN)
@@ -69,12 +132,29 @@ Options:
   -e, --examples             Show usage examples
   -h, --help                 Show this help message
 
+Collision options:
+  --bits <number>            Entropy bits per ID (default: from config)
+  --encoding <encoding>      Encoding used to derive entropy from --length
+  --length <number>          Fixed body length used to derive entropy
+  -c, --count <number>       Expected number of IDs (e.g. 1e9)
+  --rate <number>            IDs generated per second
+  --duration <span>          Time span at that rate, e.g. 30d, 5y (s, m, h, d, w, y)
+  --threshold <probability>  Acceptable collision probability (default: 1e-6)
+
+Scan options:
+  -p, --prefix <prefix>      Prefix to look for (repeatable; default: any)
+  --encoding <encoding>      Encoding of the IDs
+  --length <number>          Fixed body length of the IDs
+  -f, --format <format>      Output format: json, text (default: text)
+
 Examples:
     spark-id                                    # Generate a single ID
     spark-id -p USER                           # Generate ID with USER prefix
     spark-id -p TXN -c 5                       # Generate 5 transaction IDs
     spark-id -v USER_YBNDRFG8EJKMCPQXOT1UWISZA345H769  # Validate an ID
     spark-id --parse USER_YBNDRFG8EJKMCPQXOT1UWISZA345H769  # Parse an ID
+    spark-id collision --bits 72 --rate 1000 --duration 1y  # Collision risk
+    spark-id scan -p USER -p TXN app.log            # Find IDs in a log
 
 Output formats:
   - text: plain text (default)
@@ -83,7 +163,7 @@ Output formats:
 
 Exit codes:
   0: Success
-  1: Error or validation failed
+  1: Error, validation failed, or no IDs found by scan
 `);
 }
 
@@ -167,6 +247,103 @@ function outputIds(ids: string[], format: string = 'text') {
   }
 }
 
+function getConfig(options: CliOptions): Partial<SparkIdConfig> {
+  const config: Partial<SparkIdConfig> = {};
+  if (options.encoding) config.encoding = options.encoding;
+  if (options.length !== undefined) config.length = options.length;
+  return config;
+}
+
+function showCollisionRisk(options: CliOptions) {
+  const risk = estimateCollisionRisk({
+    entropyBits: options.bits,
+    config: getConfig(options),
+    count: options.count,
+    rate: options.rate,
+    duration: options.duration,
+    threshold: options.threshold,
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(risk, null, 2));
+    return;
+  }
+
+  const rows: [string, string | undefined][] = [
+    ['Entropy', `${risk.entropyBits} bits`],
+    ['IDs', risk.count?.toLocaleString('en-US')],
+    ['Collision probability', risk.probability?.toPrecision(3)],
+    ['Threshold', String(risk.threshold)],
+    ['Max IDs within threshold', risk.maxIds.toLocaleString('en-US')],
+    [
+      'Time to threshold',
+      risk.secondsToThreshold === undefined
+        ? undefined
+        : `${(risk.secondsToThreshold / DURATION_UNITS.d).toPrecision(3)} days`,
+    ],
+    [
+      'Required entropy',
+      risk.requiredEntropyBits === undefined
+        ? undefined
+        : `${risk.requiredEntropyBits} bits`,
+    ],
+  ];
+
+  rows
+    .filter(([, value]) => value !== undefined)
+    .forEach(([label, value]) =>
+      console.log(`${`${label}:`.padEnd(26)}${value}`)
+    );
+}
+
+function scanFiles(options: CliOptions) {
+  const files = options.files ?? ['-'];
+  const ids = [];
+  const invalid = [];
+
+  for (const file of files) {
+    const source = file === '-' ? '<stdin>' : file;
+    const text = readFileSync(file === '-' ? 0 : file, 'utf8');
+    const result = findIds(text, {
+      prefixes: options.prefixes,
+      config: getConfig(options),
+    });
+
+    // Line and column (1-based) of an offset, for editors and grep-like output
+    const locate = (offset: number) => {
+      const before = text.slice(0, offset).split('\n');
+      return {
+        source,
+        line: before.length,
+        column: before[before.length - 1].length + 1,
+      };
+    };
+
+    ids.push(
+      ...result.ids.map((match) => ({ ...locate(match.start), ...match }))
+    );
+    invalid.push(
+      ...result.invalid.map((candidate) => ({
+        ...locate(candidate.start),
+        ...candidate,
+      }))
+    );
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ ids, invalid }, null, 2));
+  } else {
+    ids.forEach(({ source, line, column, text }) =>
+      console.log(`${source}:${line}:${column}  ${text}`)
+    );
+    invalid.forEach(({ source, line, column, text, code }) =>
+      console.error(`${source}:${line}:${column}  ${text}  (${code})`)
+    );
+  }
+
+  process.exit(ids.length > 0 ? 0 : 1);
+}
+
 function main() {
   const options = parseArgs();
 
@@ -180,6 +357,21 @@ function main() {
     return;
   }
 
+  if (options.command === 'collision') {
+    showCollisionRisk(options);
+    return;
+  }
+
+  if (options.command === 'scan') {
+    scanFiles(options);
+    return;
+  }
+
+  if (options.command !== undefined) {
+    console.error(`Unknown command: ${options.command}`);
+    process.exit(1);
+  }
+
   // Validation mode
   if (options.validate) {
     const isValid = isValidId(options.validate);
@@ -202,7 +394,7 @@ function main() {
   }
 
   // Generation mode
-  const count = options.count || 1;
+  const count = Math.floor(options.count || 1);
   const ids: string[] = [];
 
   for (let i = 0; i < count; i++) {
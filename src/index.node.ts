@@ -0,0 +1,4 @@
+// Node entry: draw random bytes from Node's crypto module
+import './lib/random-node.js';
+
+export * from './index.js';
@@ -1,4 +1,12 @@
 export * from './lib/secure-id.js';
+export * from './lib/alphabets.js';
+export * from './lib/id-type.js';
+export * from './lib/collision.js';
+export * from './lib/unique.js';
+export * from './lib/pattern.js';
+export * from './lib/scan.js';
+export { createSeededGenerator } from './lib/random.js';
+export { generateAsyncIterable } from './lib/stream.js';
 export * from './types.js';
 
 // Re-export sparkId for convenience
@@ -0,0 +1,2 @@
+// JSON Schema entry: patterns for OpenAPI specs, no dependencies
+export { sparkIdJsonSchema } from './lib/schema.js';
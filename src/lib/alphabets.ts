@@ -0,0 +1,115 @@
+import type { SparkIdConfig } from '../types';
+import { SparkIdError } from './errors.js';
+
+/**
+ * Alphabet registry
+ *
+ * Named base32 presets plus checks applied to every user-supplied alphabet:
+ * characters must be unique, must not collide once the `case` setting is
+ * applied, and must be URL-safe (RFC 3986 unreserved characters).
+ */
+
+export const ALPHABETS = {
+  'z-base-32': 'ybndrfg8ejkmcpqxot1uwisza345h769',
+  rfc4648: 'abcdefghijklmnopqrstuvwxyz234567',
+  crockford: '0123456789abcdefghjkmnpqrstvwxyz',
+} as const;
+
+/**
+ * Default alphabet of earlier releases. It repeats `w`, `x` and `9`, so it
+ * is only kept to read IDs minted with it: it can be configured to parse
+ * and validate them, but not to generate new ones.
+ */
+export const LEGACY_ALPHABET = 'yvndrfg9ejkmcpqxwt2uwxsza345h769';
+export const LEGACY_ALPHABET_NAME = 'spark-id-legacy';
+
+const URL_SAFE_REGEX = /^[A-Za-z0-9\-._~]*$/;
+
+const registry = new Map<string, string>(Object.entries(ALPHABETS));
+
+// Alphabets that already passed validation, by case setting
+const validated = new Map<SparkIdConfig['case'], Set<string>>();
+
+/**
+ * List the problems with an alphabet under a given case setting
+ */
+export function getAlphabetProblems(
+  alphabet: string,
+  caseSetting: SparkIdConfig['case'] = 'upper'
+): string[] {
+  const problems: string[] = [];
+  const chars = [...alphabet];
+
+  const duplicates = chars.filter((char, i) => chars.indexOf(char) !== i);
+  if (duplicates.length > 0) {
+    problems.push(
+      `contains duplicate characters: ${[...new Set(duplicates)].join(', ')}`
+    );
+  }
+
+  if (caseSetting !== 'mixed') {
+    const folded = chars.map((char) => char.toLowerCase());
+    const collisions = chars.filter(
+      (char, i) => folded.indexOf(folded[i]) !== i && chars.indexOf(char) === i
+    );
+    if (collisions.length > 0) {
+      problems.push(
+        `contains characters that collide when case is "${caseSetting}": ${collisions.join(', ')}`
+      );
+    }
+  }
+
+  if (!URL_SAFE_REGEX.test(alphabet)) {
+    const unsafe = chars.filter((char) => !URL_SAFE_REGEX.test(char));
+    problems.push(
+      `contains characters that are not URL-safe: ${[...new Set(unsafe)].join(', ')}`
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Throw if an alphabet cannot produce unique, decodable, URL-safe IDs
+ */
+export function validateAlphabet(
+  alphabet: string,
+  caseSetting: SparkIdConfig['case'] = 'upper'
+): void {
+  const passed = validated.get(caseSetting) ?? new Set<string>();
+  if (passed.has(alphabet) || alphabet === LEGACY_ALPHABET) return;
+
+  const problems = getAlphabetProblems(alphabet, caseSetting);
+  if (problems.length > 0) {
+    throw new SparkIdError(
+      `Invalid alphabet "${alphabet}": ${problems.join('; ')}.`,
+      'INVALID_ALPHABET'
+    );
+  }
+
+  passed.add(alphabet);
+  validated.set(caseSetting, passed);
+}
+
+/**
+ * Register a named alphabet for lookup and ID detection
+ */
+export function registerAlphabet(name: string, alphabet: string): void {
+  validateAlphabet(alphabet, 'mixed');
+  registry.set(name, alphabet);
+}
+
+/**
+ * Look up a registered alphabet by name
+ */
+export function getAlphabet(name: string): string | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Get every registered alphabet, plus the legacy alphabet, as
+ * `[name, alphabet]` pairs for ID detection
+ */
+export function getDetectableAlphabets(): [string, string][] {
+  return [...registry.entries(), [LEGACY_ALPHABET_NAME, LEGACY_ALPHABET]];
+}
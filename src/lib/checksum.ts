@@ -0,0 +1,148 @@
+import type { SparkIdConfig } from '../types';
+import { getCheckSymbol, isCrockford } from './crockford.js';
+import { toDigits } from './encoding.js';
+import { SparkIdError } from './errors.js';
+
+/**
+ * Check characters appended to the ID body to catch typos
+ *
+ * - `damm`: Damm algorithm over GF(2^m), using the quasigroup
+ *   x * y = 2x + y. Detects every single-character error and every adjacent
+ *   transposition. Requires a power-of-two alphabet (hex, base32, base64).
+ * - `luhn`: Luhn mod N. Works with any alphabet and detects every
+ *   single-character error and most adjacent transpositions.
+ * - `mod37`: Crockford's check symbol, for `encoding: 'crockford'` only.
+ */
+
+export type SparkIdChecksum = NonNullable<SparkIdConfig['checksum']>;
+
+// Irreducible polynomials for GF(2^m), indexed by m
+const GF_POLYNOMIALS: Record<number, number> = {
+  2: 0x7,
+  3: 0xb,
+  4: 0x13,
+  5: 0x25,
+  6: 0x43,
+  7: 0x83,
+  8: 0x11b,
+};
+
+/**
+ * Number of check characters appended to the body
+ */
+export function getChecksumLength(
+  alphabet: string,
+  config: SparkIdConfig
+): number {
+  switch (config.checksum) {
+    case undefined:
+      return 0;
+    case 'mod37':
+      if (!isCrockford(config)) {
+        throw new SparkIdError(
+          'The mod37 check symbol requires Crockford encoding',
+          'UNSUPPORTED_CONFIG'
+        );
+      }
+      return 1;
+    case 'damm':
+      if (GF_POLYNOMIALS[Math.log2(alphabet.length)] === undefined) {
+        throw new SparkIdError(
+          `The damm checksum requires an alphabet of 4 to 256 characters with a power-of-two length. Got ${alphabet.length} characters.`,
+          'UNSUPPORTED_CONFIG'
+        );
+      }
+      return 1;
+    case 'luhn':
+      return 1;
+    default:
+      throw new SparkIdError(
+        `Unknown checksum: "${config.checksum}"`,
+        'UNSUPPORTED_CONFIG'
+      );
+  }
+}
+
+/**
+ * Compute the check characters for a body (empty without a checksum).
+ * The body must only contain characters of the alphabet.
+ */
+export function computeChecksum(
+  body: string,
+  alphabet: string,
+  config: SparkIdConfig
+): string {
+  if (getChecksumLength(alphabet, config) === 0) return '';
+
+  if (config.checksum === 'mod37') {
+    return getCheckSymbol(body);
+  }
+
+  const digits = toDigits(body, alphabet) ?? [];
+  const check =
+    config.checksum === 'damm'
+      ? dammCheckDigit(digits, alphabet.length)
+      : luhnCheckDigit(digits, alphabet.length);
+
+  return alphabet[check];
+}
+
+/**
+ * Check whether the check characters match the body
+ */
+export function verifyChecksum(
+  body: string,
+  check: string,
+  alphabet: string,
+  config: SparkIdConfig
+): boolean {
+  const expected = computeChecksum(body, alphabet, config);
+
+  if (config.checksum === 'mod37') {
+    return expected === check.toLowerCase();
+  }
+
+  const actual = toDigits(check, alphabet);
+  return actual?.length === 1 && actual[0] === alphabet.indexOf(expected);
+}
+
+/**
+ * Multiply in GF(2^m)
+ */
+function gfMultiply(a: number, b: number, radix: number): number {
+  const polynomial = GF_POLYNOMIALS[Math.log2(radix)];
+  let result = 0;
+
+  while (b > 0) {
+    if (b & 1) result ^= a;
+    b >>= 1;
+    a <<= 1;
+    if (a & radix) a ^= polynomial;
+  }
+
+  return result;
+}
+
+function dammCheckDigit(digits: number[], radix: number): number {
+  let interim = 0;
+
+  for (const digit of digits) {
+    interim = gfMultiply(2, interim, radix) ^ digit;
+  }
+
+  // The check digit brings the interim value back to zero
+  return gfMultiply(2, interim, radix);
+}
+
+function luhnCheckDigit(digits: number[], radix: number): number {
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const addend = factor * digits[i];
+    sum += Math.floor(addend / radix) + (addend % radix);
+    factor = factor === 2 ? 1 : 2;
+  }
+
+  return (radix - (sum % radix)) % radix;
+}
@@ -0,0 +1,114 @@
+import type { SparkIdCollisionOptions, SparkIdCollisionRisk } from '../types';
+import { SparkIdError } from './errors.js';
+import { SecureId } from './secure-id.js';
+
+/**
+ * Collision risk estimates
+ *
+ * Random IDs collide according to the birthday bound: among n IDs drawn
+ * from N = 2^bits values, the chance of at least one collision is
+ * 1 - e^(-n(n-1)/2N). It grows with the square of the volume, so the risk
+ * to plan for is the whole population's, not one pair's (1/N).
+ */
+
+// One in a million over the lifetime of the ID space
+const DEFAULT_THRESHOLD = 1e-6;
+
+/**
+ * Estimate the collision risk for an entropy size (or config) and an ID
+ * volume, given directly or as a rate over a time span
+ *
+ * @example
+ * ```typescript
+ * const risk = estimateCollisionRisk({ entropyBits: 72, rate: 1000, duration: 365 * 86400 })
+ * risk.probability // chance of any collision within a year at 1000 IDs/s
+ * risk.maxIds // IDs before the risk reaches one in a million
+ * ```
+ */
+export function estimateCollisionRisk(
+  options: SparkIdCollisionOptions = {}
+): SparkIdCollisionRisk {
+  const { rate, duration, threshold = DEFAULT_THRESHOLD } = options;
+  const entropyBits =
+    options.entropyBits ?? SecureId.getEntropyBits(options.config);
+
+  if (!(entropyBits > 0 && Number.isFinite(entropyBits))) {
+    throw new SparkIdError(
+      `Entropy bits must be a positive number. Got ${entropyBits}.`,
+      'INVALID_ENTROPY'
+    );
+  }
+
+  if (!(threshold > 0 && threshold < 1)) {
+    throw new SparkIdError(
+      `Threshold must be a probability between 0 and 1 (exclusive). Got ${threshold}.`,
+      'INVALID_THRESHOLD'
+    );
+  }
+
+  for (const [name, value] of Object.entries({
+    count: options.count,
+    rate,
+    duration,
+  })) {
+    if (value !== undefined && !(value >= 0 && Number.isFinite(value))) {
+      throw new SparkIdError(
+        `${name} must be a non-negative number. Got ${value}.`,
+        'INVALID_COUNT'
+      );
+    }
+  }
+
+  if (duration !== undefined && rate === undefined) {
+    throw new SparkIdError('A duration requires a rate', 'INVALID_COUNT');
+  }
+
+  const count =
+    options.count ??
+    (rate !== undefined && duration !== undefined
+      ? rate * duration
+      : undefined);
+  const maxIds = getMaxIds(entropyBits, threshold);
+  const risk: SparkIdCollisionRisk = { entropyBits, threshold, maxIds };
+
+  if (count !== undefined) {
+    risk.count = count;
+    risk.probability = getCollisionProbability(entropyBits, count);
+    risk.requiredEntropyBits = getRequiredEntropyBits(count, threshold);
+  }
+
+  if (rate) {
+    risk.secondsToThreshold = maxIds / rate;
+  }
+
+  return risk;
+}
+
+/**
+ * Chance of at least one collision among `count` IDs
+ */
+export function getCollisionProbability(
+  entropyBits: number,
+  count: number
+): number {
+  const pairs = (count * (count - 1)) / 2;
+  return pairs > 0 ? -Math.expm1(-pairs / Math.pow(2, entropyBits)) : 0;
+}
+
+/**
+ * Number of IDs that can be minted before the collision probability
+ * exceeds the threshold
+ */
+function getMaxIds(entropyBits: number, threshold: number): number {
+  // Solve n(n-1)/2 = N * -ln(1 - threshold) for n
+  const pairs = Math.pow(2, entropyBits) * -Math.log1p(-threshold);
+  return Math.floor((1 + Math.sqrt(1 + 8 * pairs)) / 2);
+}
+
+/**
+ * Smallest entropy that keeps `count` IDs within the threshold
+ */
+function getRequiredEntropyBits(count: number, threshold: number): number {
+  const pairs = (count * (count - 1)) / 2;
+  return Math.max(0, Math.ceil(Math.log2(pairs / -Math.log1p(-threshold))));
+}
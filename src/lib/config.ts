@@ -0,0 +1,254 @@
+import type { SparkIdConfig, SparkIdConfigIssue } from '../types';
+import { LEGACY_ALPHABET } from './alphabets.js';
+import { getChecksumLength } from './checksum.js';
+import { CROCKFORD_CHECK_SYMBOLS, isCrockford } from './crockford.js';
+import { isCaseSensitive, resolveAlphabet } from './encoding.js';
+import { InvalidConfigError, SparkIdError } from './errors.js';
+import {
+  getMachineIdBits,
+  getMachineIdLength,
+  hasMachineIdSlot,
+  resolveMachineId,
+} from './machine-id.js';
+import { getTimestampLength } from './timestamp.js';
+
+/**
+ * Configuration validation
+ *
+ * A resolved configuration is checked as a whole and every problem is
+ * reported at once, each with the path of the offending field. Checks owned
+ * by other modules (alphabets, checksums, machine IDs) keep their own
+ * messages and codes.
+ */
+
+const CASES = ['upper', 'lower', 'mixed'];
+const ENCODINGS = [
+  'base32',
+  'base64',
+  'hex',
+  'base58',
+  'base62',
+  'crockford',
+  'custom',
+];
+
+// Fields that decide how an ID is split into prefix and body, which happens
+// before the prefix (and so its registered config) is known
+const PREFIX_INDEPENDENT_FIELDS = [
+  'separator',
+  'maxPrefixLength',
+  'strictPrefixes',
+] as const;
+
+// Configs are checked on every call, and usually repeat
+let lastValidConfig: SparkIdConfig | undefined;
+
+/**
+ * List the problems with a resolved configuration
+ */
+export function getConfigIssues(config: SparkIdConfig): SparkIdConfigIssue[] {
+  const issues: SparkIdConfigIssue[] = [];
+  const add = (path: string, message: string, code = 'INVALID_CONFIG') => {
+    issues.push({ path, message, code });
+  };
+  const check = (path: string, fn: () => void): boolean => {
+    try {
+      fn();
+      return true;
+    } catch (error) {
+      if (!(error instanceof SparkIdError)) throw error;
+      add(path, error.message, error.code);
+      return false;
+    }
+  };
+
+  if (!isPositiveInteger(config.entropyBits)) {
+    add(
+      'entropyBits',
+      `Entropy bits must be a positive integer. Got ${config.entropyBits}.`
+    );
+  }
+
+  if (config.length !== undefined && !isPositiveInteger(config.length)) {
+    add(
+      'length',
+      `Invalid length: ${config.length}. Length must be a positive integer.`,
+      'INVALID_LENGTH'
+    );
+  }
+
+  if (!isPositiveInteger(config.maxPrefixLength)) {
+    add(
+      'maxPrefixLength',
+      `Maximum prefix length must be a positive integer. Got ${config.maxPrefixLength}.`
+    );
+  }
+
+  const separatorValid =
+    typeof config.separator === 'string' && config.separator.length > 0;
+  if (!separatorValid) {
+    add('separator', 'Separator must be a non-empty string');
+  }
+
+  if (!CASES.includes(config.case ?? 'upper')) {
+    add(
+      'case',
+      `Case must be one of ${CASES.join(', ')}. Got "${config.case}".`
+    );
+  }
+
+  for (const key of ['timestamp', 'strictPrefixes'] as const) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      add(key, `Expected a boolean. Got ${typeof config[key]}.`);
+    }
+  }
+
+  if (config.random !== undefined && typeof config.random !== 'function') {
+    add('random', `Expected a function. Got ${typeof config.random}.`);
+  }
+
+  if (hasMachineIdSlot(config)) {
+    if (check('machineIdBits', () => getMachineIdBits(config))) {
+      if (config.machineId !== undefined) {
+        check('machineId', () => resolveMachineId(config));
+      }
+    }
+  }
+
+  // The remaining checks need a usable alphabet
+  const encoding = config.encoding ?? 'base32';
+  if (!ENCODINGS.includes(encoding)) {
+    add(
+      'encoding',
+      `Encoding must be one of ${ENCODINGS.join(', ')}. Got "${encoding}".`,
+      'UNSUPPORTED_CONFIG'
+    );
+    return issues;
+  }
+
+  let alphabet = '';
+  if (!check('alphabet', () => (alphabet = resolveAlphabet(config)))) {
+    return issues;
+  }
+
+  // Legacy digits are ambiguous, so only random bodies can be read
+  if (
+    alphabet === LEGACY_ALPHABET &&
+    (config.timestamp || hasMachineIdSlot(config) || config.checksum)
+  ) {
+    add(
+      'alphabet',
+      'The legacy alphabet cannot be combined with timestamp, machineId or checksum',
+      'INVALID_ALPHABET'
+    );
+    return issues;
+  }
+
+  let checksumLength = 0;
+  const checksumValid = check(
+    'checksum',
+    () => (checksumLength = getChecksumLength(alphabet, config))
+  );
+
+  if (separatorValid) {
+    const clashes = getSeparatorClashes(config.separator!, alphabet, config);
+    if (clashes.length > 0) {
+      add(
+        'separator',
+        `Separator "${config.separator}" contains characters used in IDs: ${clashes.join(', ')}`
+      );
+    }
+  }
+
+  // A fixed length must leave room for the random part
+  if (
+    checksumValid &&
+    isPositiveInteger(config.length) &&
+    !issues.some((issue) => issue.path.startsWith('machineId'))
+  ) {
+    const headerLength =
+      (config.timestamp ? getTimestampLength(alphabet) : 0) +
+      getMachineIdLength(alphabet, config);
+
+    if (config.length - headerLength - checksumLength < 1) {
+      add(
+        'length',
+        `Invalid length: ${config.length}. Length must be an integer that leaves room for at least one random character.`,
+        'INVALID_LENGTH'
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw an `InvalidConfigError` listing every problem with a resolved
+ * configuration
+ */
+export function assertValidConfig(config: SparkIdConfig): void {
+  if (lastValidConfig && isSameConfig(config, lastValidConfig)) return;
+
+  const issues = getConfigIssues(config);
+  if (issues.length > 0) {
+    throw new InvalidConfigError(issues);
+  }
+  lastValidConfig = { ...config };
+}
+
+/**
+ * Throw an `InvalidConfigError` for fields a registered prefix cannot
+ * override
+ */
+export function assertValidPrefixConfig(config: Partial<SparkIdConfig>): void {
+  const issues = PREFIX_INDEPENDENT_FIELDS.filter(
+    (key) => config[key] !== undefined
+  ).map(
+    (path): SparkIdConfigIssue => ({
+      path,
+      message: `${path} applies to every prefix and cannot be set per prefix`,
+      code: 'INVALID_CONFIG',
+    })
+  );
+
+  if (issues.length > 0) {
+    throw new InvalidConfigError(issues);
+  }
+}
+
+function isSameConfig(a: SparkIdConfig, b: SparkIdConfig): boolean {
+  let key: keyof SparkIdConfig;
+  for (key in a) {
+    if (a[key] !== b[key]) return false;
+  }
+  for (key in b) {
+    if (!(key in a)) return false;
+  }
+  return true;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Get the separator characters that can also appear in an ID body, which
+ * would make splitting prefix and body ambiguous
+ */
+function getSeparatorClashes(
+  separator: string,
+  alphabet: string,
+  config: SparkIdConfig
+): string[] {
+  // Crockford bodies may also contain hyphens, confusables and check symbols
+  let reserved = alphabet;
+  if (isCrockford(config)) {
+    reserved += '-ilo';
+    if (config.checksum === 'mod37') reserved += CROCKFORD_CHECK_SYMBOLS;
+  }
+
+  const fold = (value: string) =>
+    isCaseSensitive(alphabet) ? value : value.toLowerCase();
+  const chars = new Set(fold(reserved));
+  return [...new Set(separator)].filter((char) => chars.has(fold(char)));
+}
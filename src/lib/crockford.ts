@@ -0,0 +1,48 @@
+import type { SparkIdConfig } from '../types';
+import { ALPHABETS } from './alphabets.js';
+
+/**
+ * Crockford base32 support
+ *
+ * With `encoding: 'crockford'`, parsing is lenient so IDs can be read aloud
+ * and typed by hand: case is ignored, hyphens are dropped, and the
+ * confusable characters I/L and O are read as 1 and 0. The optional mod-37
+ * check symbol (`checksum: 'mod37'`) is appended after the body.
+ *
+ * @see https://www.crockford.com/base32.html
+ */
+
+export const CROCKFORD_CHECK_SYMBOLS = '*~$=u';
+
+/**
+ * Check whether a config uses Crockford base32
+ */
+export function isCrockford(config: SparkIdConfig): boolean {
+  return config.encoding === 'crockford';
+}
+
+/**
+ * Normalize a hand-typed Crockford body to lowercase canonical digits
+ */
+export function normalizeCrockford(value: string): string {
+  return value
+    .replace(/-/g, '')
+    .toLowerCase()
+    .replace(/[il]/g, '1')
+    .replace(/o/g, '0');
+}
+
+/**
+ * Compute the mod-37 check symbol of a Crockford body.
+ * The body must only contain Crockford digits.
+ */
+export function getCheckSymbol(body: string): string {
+  const alphabet = ALPHABETS.crockford;
+  let remainder = 0;
+
+  for (const char of body.toLowerCase()) {
+    remainder = (remainder * 32 + alphabet.indexOf(char)) % 37;
+  }
+
+  return (alphabet + CROCKFORD_CHECK_SYMBOLS)[remainder];
+}
@@ -0,0 +1,443 @@
+import type { SparkIdConfig } from '../types';
+import { ALPHABETS, validateAlphabet } from './alphabets.js';
+import { SparkIdError } from './errors.js';
+
+/**
+ * Encoding helpers shared by the ID generator
+ *
+ * Power-of-two alphabets (hex, base32, base64) pack bits directly, padding
+ * the final character with zero bits. Other alphabets (base58, base62,
+ * custom) treat the bytes as one big-endian integer written with a fixed
+ * number of digits, so every ID of a given configuration has the same length.
+ */
+
+export type SparkIdEncoding = NonNullable<SparkIdConfig['encoding']>;
+
+// Standard alphabets for the named encodings
+export const ENCODING_ALPHABETS: Partial<Record<SparkIdEncoding, string>> = {
+  hex: '0123456789abcdef',
+  base58: '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz',
+  base62: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+  base64: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_',
+  crockford: ALPHABETS.crockford,
+};
+
+/**
+ * Get the alphabet for a configuration. Named encodings use their standard
+ * alphabet; `base32` and `custom` use `config.alphabet`, which is checked
+ * against the alphabet registry rules.
+ */
+export function resolveAlphabet(config: SparkIdConfig): string {
+  const encoding = config.encoding ?? 'base32';
+  const alphabet = ENCODING_ALPHABETS[encoding] ?? config.alphabet ?? '';
+
+  if (encoding === 'base32' && alphabet.length !== 32) {
+    throw new SparkIdError(
+      `Alphabet must have exactly 32 characters for base32 encoding. Got ${alphabet.length} characters.`,
+      'INVALID_ALPHABET'
+    );
+  }
+
+  if (alphabet.length < 2) {
+    throw new SparkIdError(
+      `Alphabet must have at least 2 characters. Got ${alphabet.length} characters.`,
+      'INVALID_ALPHABET'
+    );
+  }
+
+  if (!ENCODING_ALPHABETS[encoding]) {
+    validateAlphabet(alphabet, config.case);
+  }
+
+  return alphabet;
+}
+
+// Alphabets are checked on every generation, so remember the answer
+const caseSensitivity = new Map<string, boolean>();
+
+/**
+ * Check whether an alphabet distinguishes upper and lower case characters.
+ * Case-sensitive alphabets (base58, base62, base64) ignore the `case` setting.
+ */
+export function isCaseSensitive(alphabet: string): boolean {
+  let caseSensitive = caseSensitivity.get(alphabet);
+  if (caseSensitive === undefined) {
+    caseSensitive =
+      new Set(alphabet.toLowerCase()).size < new Set(alphabet).size;
+    caseSensitivity.set(alphabet, caseSensitive);
+  }
+  return caseSensitive;
+}
+
+// Digit lookups are rebuilt rarely, but consulted on every validation
+const lookupCache = new Map<string, Map<string, number>>();
+
+// Two-character encoding tables, built once per bit-packed alphabet
+const pairTables = new Map<string, string[]>();
+
+/**
+ * Build a character to digit lookup. Case-insensitive alphabets accept
+ * either case of every character.
+ */
+function getDigitLookup(alphabet: string): Map<string, number> {
+  const cached = lookupCache.get(alphabet);
+  if (cached) return cached;
+
+  const lookup = new Map<string, number>();
+  const caseSensitive = isCaseSensitive(alphabet);
+
+  [...alphabet].forEach((char, digit) => {
+    if (caseSensitive) {
+      lookup.set(char, digit);
+    } else {
+      lookup.set(char.toLowerCase(), digit);
+      lookup.set(char.toUpperCase(), digit);
+    }
+  });
+
+  lookupCache.set(alphabet, lookup);
+  return lookup;
+}
+
+/**
+ * Convert a string to digit values. Returns `undefined` if it contains a
+ * character outside the alphabet.
+ */
+export function toDigits(
+  value: string,
+  alphabet: string
+): number[] | undefined {
+  const lookup = getDigitLookup(alphabet);
+  const digits: number[] = [];
+
+  for (const char of value) {
+    const digit = lookup.get(char);
+    if (digit === undefined) return undefined;
+    digits.push(digit);
+  }
+
+  return digits;
+}
+
+/**
+ * Check whether every character of a string belongs to the alphabet
+ */
+export function isInAlphabet(value: string, alphabet: string): boolean {
+  const lookup = getDigitLookup(alphabet);
+  return [...value].every((char) => lookup.has(char));
+}
+
+/**
+ * Get the distinct characters of an alphabet, as written under a case
+ * setting, in code point order.
+ *
+ * Numbers encoded with these digits sort lexically in numeric order, which
+ * is what the time-ordered fields of an ID rely on. The case matters:
+ * `_` sorts after `Z` but before `a`.
+ */
+export function getSortedDigits(
+  alphabet: string,
+  caseSetting: SparkIdConfig['case'] = 'upper'
+): string[] {
+  let chars = alphabet;
+  if (!isCaseSensitive(alphabet)) {
+    chars =
+      caseSetting === 'upper' ? alphabet.toUpperCase() : alphabet.toLowerCase();
+  }
+  return [...new Set(chars)].sort();
+}
+
+/**
+ * Number of digits needed to represent every value below 2^bits
+ */
+export function getDigitCount(bits: number, radix: number): number {
+  const max = Math.pow(2, bits);
+  let width = 0;
+  let capacity = 1;
+
+  while (capacity < max) {
+    capacity *= radix;
+    width++;
+  }
+
+  return width;
+}
+
+/**
+ * Bits per character for power-of-two alphabets, otherwise `undefined`
+ */
+function getBitsPerChar(radix: number): number | undefined {
+  const bits = Math.log2(radix);
+  return Number.isInteger(bits) ? bits : undefined;
+}
+
+/**
+ * Length of the encoded form of `byteLength` bytes
+ */
+export function getEncodedLength(byteLength: number, radix: number): number {
+  const bitsPerChar = getBitsPerChar(radix);
+  return bitsPerChar
+    ? Math.ceil((byteLength * 8) / bitsPerChar)
+    : getDigitCount(byteLength * 8, radix);
+}
+
+/**
+ * Encode bytes with the given alphabet
+ */
+export function encodeBytes(bytes: Uint8Array, alphabet: string): string {
+  const bitsPerChar = getBitsPerChar(alphabet.length);
+  return bitsPerChar
+    ? encodeBits(bytes, alphabet, bitsPerChar)
+    : encodeRadix(bytes, alphabet);
+}
+
+/**
+ * Decode a string produced by `encodeBytes`. Returns `undefined` if the
+ * string has the wrong length, contains an unknown character, or is not the
+ * canonical encoding of `byteLength` bytes (e.g. non-zero padding bits).
+ */
+export function decodeBytes(
+  encoded: string,
+  alphabet: string,
+  byteLength: number
+): Uint8Array | undefined {
+  if (encoded.length !== getEncodedLength(byteLength, alphabet.length)) {
+    return undefined;
+  }
+
+  const digits = toDigits(encoded, alphabet);
+  if (!digits) return undefined;
+
+  const bitsPerChar = getBitsPerChar(alphabet.length);
+  return bitsPerChar
+    ? decodeBits(digits, bitsPerChar, byteLength)
+    : decodeRadix(digits, alphabet.length, byteLength);
+}
+
+/**
+ * Generate `count` uniformly random characters of an alphabet.
+ *
+ * Power-of-two alphabets use whole random bits per character. Other
+ * alphabets use rejection sampling: values are masked to the next power of
+ * two and discarded when they fall outside the alphabet, so there is no
+ * modulo bias.
+ */
+export function encodeRandom(
+  count: number,
+  alphabet: string,
+  getRandomBytes: (size: number) => Uint8Array
+): string {
+  const radix = alphabet.length;
+  const bitsPerChar = getBitsPerChar(radix);
+
+  if (bitsPerChar) {
+    const bytes = getRandomBytes(Math.ceil((count * bitsPerChar) / 8));
+    return encodeBits(bytes, alphabet, bitsPerChar).slice(0, count);
+  }
+
+  const maskBits = Math.ceil(Math.log2(radix));
+  const mask = (1 << maskBits) - 1;
+  const bytesPerDraw = Math.ceil(maskBits / 8);
+  // Draw enough for the expected rejection rate in one go
+  const draws = Math.ceil((1.6 * (mask + 1) * count) / radix);
+  let result = '';
+
+  while (result.length < count) {
+    const bytes = getRandomBytes(draws * bytesPerDraw);
+
+    for (
+      let i = 0;
+      i < bytes.length && result.length < count;
+      i += bytesPerDraw
+    ) {
+      let value = 0;
+      for (let j = 0; j < bytesPerDraw; j++) {
+        value = (value << 8) | bytes[i + j];
+      }
+      value &= mask;
+      if (value < radix) result += alphabet[value];
+    }
+  }
+
+  return result;
+}
+
+function encodeBits(
+  bytes: Uint8Array,
+  alphabet: string,
+  bitsPerChar: number
+): string {
+  const mask = (1 << bitsPerChar) - 1;
+  const pairs = getPairTable(alphabet, bitsPerChar);
+  const pairBits = bitsPerChar * 2;
+  const pairMask = (1 << pairBits) - 1;
+  let value = 0;
+  let bits = 0;
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+
+    // Emit two characters per lookup where possible
+    if (pairs) {
+      while (bits >= pairBits) {
+        result += pairs[(value >>> (bits - pairBits)) & pairMask];
+        bits -= pairBits;
+      }
+    }
+
+    while (bits >= bitsPerChar) {
+      result += alphabet[(value >>> (bits - bitsPerChar)) & mask];
+      bits -= bitsPerChar;
+    }
+  }
+
+  if (bits > 0) {
+    result += alphabet[(value << (bitsPerChar - bits)) & mask];
+  }
+
+  return result;
+}
+
+/**
+ * Lookup table of every two-character string of a bit-packed alphabet,
+ * indexed by the combined digit value. Only built for alphabets of up to
+ * 64 characters (4096 entries).
+ */
+function getPairTable(
+  alphabet: string,
+  bitsPerChar: number
+): string[] | undefined {
+  if (bitsPerChar > 6) return undefined;
+
+  let table = pairTables.get(alphabet);
+  if (!table) {
+    table = [];
+    for (const first of alphabet) {
+      for (const second of alphabet) {
+        table.push(first + second);
+      }
+    }
+    pairTables.set(alphabet, table);
+  }
+
+  return table;
+}
+
+function decodeBits(
+  digits: number[],
+  bitsPerChar: number,
+  byteLength: number
+): Uint8Array | undefined {
+  const bytes = new Uint8Array(byteLength);
+  let value = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const digit of digits) {
+    value = ((value << bitsPerChar) | digit) & 0xffff;
+    bits += bitsPerChar;
+
+    while (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+
+  // Padding bits of the final character must be zero
+  if (index !== byteLength || (value & ((1 << bits) - 1)) !== 0) {
+    return undefined;
+  }
+
+  return bytes;
+}
+
+function encodeRadix(bytes: Uint8Array, alphabet: string): string {
+  const radix = BigInt(alphabet.length);
+  const width = getDigitCount(bytes.length * 8, alphabet.length);
+  let value = 0n;
+  let result = '';
+
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  for (let i = 0; i < width; i++) {
+    result = alphabet[Number(value % radix)] + result;
+    value /= radix;
+  }
+
+  return result;
+}
+
+function decodeRadix(
+  digits: number[],
+  radix: number,
+  byteLength: number
+): Uint8Array | undefined {
+  const bigRadix = BigInt(radix);
+  let value = 0n;
+
+  for (const digit of digits) {
+    value = value * bigRadix + BigInt(digit);
+  }
+
+  // Fixed-width digits can express values the bytes cannot hold
+  if (value >= 1n << BigInt(byteLength * 8)) return undefined;
+
+  const bytes = new Uint8Array(byteLength);
+  for (let i = byteLength - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode a non-negative integer as a fixed-width, left-padded digit string
+ */
+export function encodeInteger(
+  value: number,
+  width: number,
+  digits: string[]
+): string {
+  const radix = digits.length;
+  let remaining = value;
+  let result = '';
+
+  for (let i = 0; i < width; i++) {
+    result = digits[remaining % radix] + result;
+    remaining = Math.floor(remaining / radix);
+  }
+
+  if (remaining > 0) {
+    throw new RangeError(
+      `Value ${value} does not fit in ${width} base-${radix} digits`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Decode a digit string produced by `encodeInteger`.
+ * Returns `undefined` if the string contains an unknown digit.
+ */
+export function decodeInteger(
+  encoded: string,
+  digits: string[]
+): number | undefined {
+  const lookup = getDigitLookup(digits.join(''));
+  const radix = digits.length;
+  let value = 0;
+
+  for (const char of encoded) {
+    const digit = lookup.get(char);
+    if (digit === undefined) return undefined;
+    value = value * radix + digit;
+  }
+
+  return value;
+}
@@ -0,0 +1,55 @@
+import type { SparkIdConfigIssue, SparkIdDiagnostics } from '../types';
+
+/**
+ * Error classes for Spark-ID
+ */
+
+export class SparkIdError extends Error {
+  constructor(
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'SparkIdError';
+  }
+}
+
+export class InvalidPrefixError extends SparkIdError {
+  constructor(prefix: string) {
+    super(
+      `Invalid prefix: "${prefix}". Prefix must contain only alphanumeric characters and underscores, and be between 1-20 characters.`,
+      'INVALID_PREFIX'
+    );
+    this.name = 'InvalidPrefixError';
+  }
+}
+
+export class InvalidIdError extends SparkIdError {
+  readonly diagnostics: SparkIdDiagnostics;
+
+  constructor(
+    id: string,
+    reason?: string,
+    code: string = 'INVALID_ID',
+    diagnostics: SparkIdDiagnostics = {}
+  ) {
+    super(`Invalid ID: "${id}". ${reason || 'ID format is not valid.'}`, code);
+    this.name = 'InvalidIdError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+export class InvalidConfigError extends SparkIdError {
+  readonly issues: SparkIdConfigIssue[];
+
+  constructor(issues: SparkIdConfigIssue[]) {
+    // Keep the specific code when every issue shares it
+    const codes = new Set(issues.map((issue) => issue.code));
+    super(
+      `Invalid configuration: ${issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}`,
+      codes.size === 1 ? [...codes][0] : 'INVALID_CONFIG'
+    );
+    this.name = 'InvalidConfigError';
+    this.issues = issues;
+  }
+}
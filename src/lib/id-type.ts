@@ -0,0 +1,108 @@
+import type {
+  ParsedSparkId,
+  SparkId,
+  SparkIdConfig,
+  SparkIdType,
+  SparkIdValidationResult,
+} from '../types';
+import { InvalidIdError, InvalidPrefixError, SparkIdError } from './errors.js';
+import { SecureId, validateId } from './secure-id.js';
+
+/**
+ * Typed ID definitions
+ *
+ * `defineIdType('USER')` binds a prefix and config to a generator, validator
+ * and parser whose values are typed as `SparkId<'USER'>`, so passing a
+ * `SparkId<'TXN'>` where a user ID is expected fails to compile.
+ *
+ * @example
+ * ```typescript
+ * const UserId = defineIdType('USER')
+ * type UserId = IdOf<typeof UserId> // SparkId<'USER'>
+ *
+ * const id = UserId.generate() // "USER_YBNDRFG8EJKMCPQXOT1UWISZA345H769"
+ * if (UserId.isValid(input)) {
+ *   // input is SparkId<'USER'> here
+ * }
+ * ```
+ */
+
+// The ID type produced by a definition
+export type IdOf<T> = T extends SparkIdType<infer P> ? SparkId<P> : never;
+
+/**
+ * Define a typed ID kind for a prefix
+ *
+ * The prefix must already be written in the configured case (e.g. `USER`
+ * with the default `case: 'upper'`), so the type matches the generated IDs.
+ */
+export function defineIdType<P extends string>(
+  prefix: P,
+  config?: Partial<SparkIdConfig>
+): SparkIdType<P> {
+  if (!SecureId.isValidPrefix(prefix, config)) {
+    throw new InvalidPrefixError(prefix);
+  }
+
+  const formatted = SecureId.formatPrefix(prefix, config);
+  if (formatted !== prefix) {
+    throw new SparkIdError(
+      `Prefix "${prefix}" is written as "${formatted}" with the configured case. Define the ID type with "${formatted}".`,
+      'INVALID_PREFIX'
+    );
+  }
+
+  const parse = (value: string): ParsedSparkId<P> => {
+    const parsed = SecureId.parse(value, config);
+    if (parsed.prefix !== prefix) {
+      throw new InvalidIdError(
+        value,
+        `Expected an ID with prefix "${prefix}".`,
+        'PREFIX_MISMATCH'
+      );
+    }
+    return parsed as ParsedSparkId<P>;
+  };
+
+  return Object.freeze({
+    prefix,
+    config,
+    generate: () => SecureId.generate(prefix, config) as SparkId<P>,
+    create: () =>
+      new SecureId(undefined, prefix, config) as ReturnType<
+        SparkIdType<P>['create']
+      >,
+    isValid: (value: unknown): value is SparkId<P> => {
+      if (typeof value !== 'string') return false;
+      try {
+        parse(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    validate: (value: string) => {
+      const result = validateId(value, config);
+      if (!result.isValid) return result;
+
+      const parsed = SecureId.parse(value, config);
+      if (parsed.prefix !== prefix) {
+        const mismatch: SparkIdValidationResult = {
+          isValid: false,
+          error: 'Prefix mismatch',
+          code: 'PREFIX_MISMATCH',
+        };
+        // A prefix that differs only in case can still be fixed
+        if (
+          result.suggestion &&
+          parsed.prefix?.toUpperCase() === prefix.toUpperCase()
+        ) {
+          mismatch.suggestion = result.suggestion;
+        }
+        return mismatch;
+      }
+      return result;
+    },
+    parse,
+  });
+}
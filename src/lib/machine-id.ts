@@ -0,0 +1,114 @@
+import type { SparkIdConfig } from '../types';
+import {
+  decodeInteger,
+  encodeInteger,
+  getDigitCount,
+  getSortedDigits,
+} from './encoding.js';
+import { SparkIdError } from './errors.js';
+
+/**
+ * Node-tagged ID support
+ *
+ * When `machineId` is configured, a fixed-width slot holding the worker/node
+ * identifier is written after the timestamp (if any) and before the random
+ * part of the body. The slot is sized from `machineIdBits`, so every node of
+ * a deployment must share the same bit width.
+ *
+ * Layout: [timestamp][machine id][random]
+ */
+
+export const DEFAULT_MACHINE_ID_BITS = 10;
+export const MAX_MACHINE_ID_BITS = 32;
+
+/**
+ * Check whether a config reserves a machine ID slot.
+ * Parsers only need `machineIdBits` to locate the slot.
+ */
+export function hasMachineIdSlot(config: SparkIdConfig): boolean {
+  return config.machineId !== undefined || config.machineIdBits !== undefined;
+}
+
+/**
+ * Get the declared machine ID bit width
+ */
+export function getMachineIdBits(config: SparkIdConfig): number {
+  const bits = config.machineIdBits ?? DEFAULT_MACHINE_ID_BITS;
+
+  if (!Number.isInteger(bits) || bits < 1 || bits > MAX_MACHINE_ID_BITS) {
+    throw new SparkIdError(
+      `Machine ID bit width must be an integer between 1 and ${MAX_MACHINE_ID_BITS}. Got ${bits}.`,
+      'INVALID_MACHINE_ID'
+    );
+  }
+
+  return bits;
+}
+
+/**
+ * Resolve the configured machine ID to a number within the declared width
+ */
+export function resolveMachineId(config: SparkIdConfig): number {
+  const bits = getMachineIdBits(config);
+  const raw = config.machineId;
+  const value =
+    typeof raw === 'string' && /^\d+$/.test(raw) ? Number(raw) : raw;
+
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < 0 ||
+    value >= Math.pow(2, bits)
+  ) {
+    throw new SparkIdError(
+      `Invalid machine ID: "${raw}". Machine ID must be an integer between 0 and ${Math.pow(2, bits) - 1} (${bits} bits).`,
+      'INVALID_MACHINE_ID'
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Number of characters used by the machine ID slot
+ */
+export function getMachineIdLength(
+  alphabet: string,
+  config: SparkIdConfig
+): number {
+  if (!hasMachineIdSlot(config)) return 0;
+  return getDigitCount(
+    getMachineIdBits(config),
+    getSortedDigits(alphabet).length
+  );
+}
+
+/**
+ * Encode the configured machine ID into its slot
+ */
+export function encodeMachineId(
+  alphabet: string,
+  config: SparkIdConfig
+): string {
+  return encodeInteger(
+    resolveMachineId(config),
+    getMachineIdLength(alphabet, config),
+    getSortedDigits(alphabet, config.case)
+  );
+}
+
+/**
+ * Decode a machine ID slot. Returns `undefined` if it is malformed or
+ * exceeds the declared bit width.
+ */
+export function decodeMachineId(
+  slot: string,
+  alphabet: string,
+  config: SparkIdConfig
+): number | undefined {
+  const value = decodeInteger(slot, getSortedDigits(alphabet, config.case));
+  if (value === undefined || value >= Math.pow(2, getMachineIdBits(config))) {
+    return undefined;
+  }
+  return value;
+}
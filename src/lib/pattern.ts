@@ -0,0 +1,310 @@
+import type { SparkIdConfig, SparkIdPatternOptions } from '../types';
+import { CROCKFORD_CHECK_SYMBOLS, isCrockford } from './crockford.js';
+import {
+  getSortedDigits,
+  isCaseSensitive,
+  resolveAlphabet,
+} from './encoding.js';
+import { InvalidPrefixError, SparkIdError } from './errors.js';
+import {
+  getMachineIdBits,
+  getMachineIdLength,
+  hasMachineIdSlot,
+} from './machine-id.js';
+import { SecureId } from './secure-id.js';
+import { getTimestampLength } from './timestamp.js';
+
+/**
+ * Regular expressions for ID formats
+ *
+ * Patterns use the syntax shared by JavaScript (with or without the `u`
+ * flag), JSON Schema and PostgreSQL, and match what `isValid` accepts:
+ * prefixes and case-insensitive alphabets in either case, lenient Crockford
+ * spellings, and machine IDs within the declared bit width. Check
+ * characters are the exception: a regular expression cannot verify them,
+ * so any character of the right kind matches.
+ */
+
+// Characters a prefix may contain, matching SecureId.isValidPrefix
+const PREFIX_CHARS = 'A-Za-z0-9_';
+
+// A character class (or single character) and how often it repeats
+type PatternRun = [pattern: string, count: number];
+
+/**
+ * Build a regular expression for the IDs a configuration accepts
+ *
+ * @example
+ * ```typescript
+ * const re = toRegExp({ encoding: 'hex' }, { prefixes: ['USER', 'TXN'] })
+ * re.test('USER_0f3a9c...') // true
+ *
+ * // Unanchored, to scrub IDs out of logs
+ * line.replace(toRegExp(undefined, { anchored: false, flags: 'g' }), '[id]')
+ * ```
+ */
+export function toRegExp(
+  config?: Partial<SparkIdConfig>,
+  options: SparkIdPatternOptions = {}
+): RegExp {
+  return new RegExp(toPattern(config, options), options.flags);
+}
+
+/**
+ * Build the source of `toRegExp`, e.g. for a PostgreSQL CHECK constraint
+ * (`id ~ '...'`) or a JSON Schema `pattern`
+ */
+export function toPattern(
+  config?: Partial<SparkIdConfig>,
+  options: SparkIdPatternOptions = {}
+): string {
+  const resolved = SecureId.validateConfig(config);
+  const separator = escapeRegExp(resolved.separator ?? '_');
+  const strict = resolved.strictPrefixes ?? false;
+
+  // Strict mode only accepts registered prefixes
+  let prefixes = options.prefixes;
+  if (strict) {
+    prefixes ??= SecureId.getRegisteredPrefixes();
+    if (prefixes.length === 0) {
+      throw new SparkIdError(
+        'strictPrefixes is set but there are no registered prefixes to match',
+        'UNKNOWN_PREFIX'
+      );
+    }
+  }
+
+  const branches: string[] = [];
+  const base = getBodyPattern(resolved);
+  const getPrefixBody = (prefix: string): string =>
+    getBodyPattern(
+      SecureId.validateConfig({
+        ...SecureId.getPrefixConfig(prefix),
+        ...config,
+      })
+    );
+
+  if (prefixes === undefined) {
+    // isValid checks the bodies of registered prefixes with their own
+    // config, so those get their own branches below and are kept out of
+    // the generic one
+    prefixes = SecureId.getRegisteredPrefixes().filter(
+      (prefix) =>
+        SecureId.isValidPrefix(prefix, config) && getPrefixBody(prefix) !== base
+    );
+
+    let prefix = `[${PREFIX_CHARS}]{1,${resolved.maxPrefixLength ?? 20}}`;
+    if (prefixes.length > 0) {
+      const end = options.anchored === false ? '' : '$';
+      prefix = `(?!${alternate(prefixes.map(ignoreCase))}${separator}${base}${end})${prefix}`;
+    }
+    branches.push(`(?:${prefix}${separator})?${base}`);
+  } else if (prefixes.length === 0) {
+    branches.push(base);
+  }
+
+  // Registered prefixes may bring their own config, so group the prefixes
+  // that share a body pattern
+  const groups = new Map<string, string[]>();
+  for (const prefix of prefixes) {
+    assertMatchablePrefix(prefix, config, strict);
+
+    const body = getPrefixBody(prefix);
+    const written =
+      options.exactPrefixCase && options.prefixes ? prefix : ignoreCase(prefix);
+    groups.set(body, [...(groups.get(body) ?? []), written]);
+  }
+  for (const [body, group] of groups) {
+    branches.push(`${alternate(group)}${separator}${body}`);
+  }
+
+  const pattern = alternate(branches);
+  return options.anchored === false ? pattern : `^${pattern}$`;
+}
+
+function assertMatchablePrefix(
+  prefix: string,
+  config: Partial<SparkIdConfig> | undefined,
+  strict: boolean
+): void {
+  if (!SecureId.isValidPrefix(prefix, config)) {
+    throw new InvalidPrefixError(prefix);
+  }
+  if (strict && SecureId.getPrefixConfig(prefix) === undefined) {
+    throw new SparkIdError(
+      `Prefix "${prefix}" is not registered, so strictPrefixes rejects it`,
+      'UNKNOWN_PREFIX'
+    );
+  }
+}
+
+/**
+ * Pattern for an ID body: timestamp, machine ID slot, random characters
+ * and check characters
+ */
+function getBodyPattern(config: Readonly<SparkIdConfig>): string {
+  const alphabet = resolveAlphabet(config);
+  const crockford = isCrockford(config);
+  const digits = getDigitChars(alphabet, config);
+  const any = toCharClass(digits.join(''));
+
+  // Crockford hyphens may appear anywhere in the body
+  const repeat = ([pattern, count]: PatternRun): string => {
+    if (count === 0) return '';
+    if (crockford) {
+      return count > 1 ? `(?:${pattern}-*){${count}}` : `${pattern}-*`;
+    }
+    return count > 1 ? `${pattern}{${count}}` : pattern;
+  };
+
+  const timestampLength = config.timestamp ? getTimestampLength(alphabet) : 0;
+  const machineLength = getMachineIdLength(alphabet, config);
+  const checkLength = config.checksum === 'mod37' ? 1 : 0;
+  const randomLength =
+    SecureId.getIdLength(config) -
+    timestampLength -
+    machineLength -
+    checkLength;
+
+  let machine = '';
+  if (hasMachineIdSlot(config)) {
+    const alternatives = getRangeRuns(
+      Math.pow(2, getMachineIdBits(config)),
+      machineLength,
+      digits
+    ).map((runs) => runs.map(repeat).join(''));
+    machine =
+      alternatives.length > 1
+        ? `(?:${alternatives.join('|')})`
+        : alternatives[0];
+  }
+
+  // Crockford's mod-37 check symbol extends the digits
+  let check = '';
+  if (checkLength > 0) {
+    const symbols =
+      CROCKFORD_CHECK_SYMBOLS + CROCKFORD_CHECK_SYMBOLS.toUpperCase();
+    check = repeat([toCharClass(digits.join('') + symbols), 1]);
+  }
+
+  return (
+    (crockford ? '-*' : '') +
+    repeat([any, timestampLength]) +
+    machine +
+    repeat([any, randomLength]) +
+    check
+  );
+}
+
+/**
+ * Get the characters read as each digit value: both cases for
+ * case-insensitive alphabets, plus Crockford's I/L/O aliases
+ */
+function getDigitChars(
+  alphabet: string,
+  config: Readonly<SparkIdConfig>
+): string[] {
+  const caseSensitive = isCaseSensitive(alphabet);
+  const crockford = isCrockford(config);
+
+  return getSortedDigits(alphabet, config.case).map((digit) => {
+    let chars = caseSensitive
+      ? digit
+      : digit.toLowerCase() + digit.toUpperCase();
+    if (crockford && digit === '1') chars += 'iIlL';
+    if (crockford && digit === '0') chars += 'oO';
+    return chars;
+  });
+}
+
+/**
+ * Describe the fixed-width numbers below a limit as alternatives of runs.
+ * In each alternative, the leading digits equal the limit's, the next one
+ * is smaller and the rest are free.
+ */
+function getRangeRuns(
+  limit: number,
+  width: number,
+  digits: string[]
+): PatternRun[][] {
+  const radix = digits.length;
+  const any = toCharClass(digits.join(''));
+  if (limit >= Math.pow(radix, width)) return [[[any, width]]];
+
+  const limitDigits: number[] = [];
+  for (let rest = limit, i = 0; i < width; i++) {
+    limitDigits.unshift(rest % radix);
+    rest = Math.floor(rest / radix);
+  }
+
+  const alternatives: PatternRun[][] = [];
+  limitDigits.forEach((digit, index) => {
+    if (digit === 0) return;
+
+    const equal = limitDigits
+      .slice(0, index)
+      .map((value): PatternRun => [toCharClass(digits[value]), 1]);
+    const smaller: PatternRun = [
+      toCharClass(digits.slice(0, digit).join('')),
+      1,
+    ];
+    alternatives.push([...equal, smaller, [any, width - index - 1]]);
+  });
+
+  return alternatives;
+}
+
+/**
+ * Build a character class, with runs collapsed into ranges and the hyphen
+ * last so it needs no escaping. A single character is written bare.
+ */
+function toCharClass(chars: string): string {
+  const unique = [...new Set(chars)];
+  if (unique.length === 1) return escapeRegExp(unique[0]);
+
+  const codes = unique
+    .filter((char) => char !== '-')
+    .map((char) => char.codePointAt(0)!)
+    .sort((a, b) => a - b);
+
+  const parts: string[] = [];
+  for (let start = 0; start < codes.length; ) {
+    let end = start;
+    while (end + 1 < codes.length && codes[end + 1] === codes[end] + 1) end++;
+
+    const run = codes
+      .slice(start, end + 1)
+      .map((code) => escapeClassChar(String.fromCodePoint(code)));
+    parts.push(
+      run.length > 2 ? `${run[0]}-${run[run.length - 1]}` : run.join('')
+    );
+    start = end + 1;
+  }
+
+  return `[${parts.join('')}${unique.includes('-') ? '-' : ''}]`;
+}
+
+/**
+ * Join patterns into a group of alternatives (a single pattern is kept bare)
+ */
+function alternate(patterns: string[]): string {
+  return patterns.length > 1 ? `(?:${patterns.join('|')})` : patterns[0];
+}
+
+/**
+ * Match letters in either case, e.g. USER -> [Uu][Ss][Ee][Rr]
+ */
+function ignoreCase(pattern: string): string {
+  return pattern.replace(
+    /[a-z]/gi,
+    (char) => `[${char.toUpperCase()}${char.toLowerCase()}]`
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&');
+}
+
+function escapeClassChar(char: string): string {
+  return /[\\\]^]/.test(char) ? `\\${char}` : char;
+}
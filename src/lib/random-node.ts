@@ -0,0 +1,8 @@
+import { randomBytes } from 'crypto';
+import { setDefaultRandomSource } from './random.js';
+
+/**
+ * Node randomness source, installed by the Node entry points.
+ * `globalThis.crypto` is only available by default from Node 19.
+ */
+setDefaultRandomSource((size) => randomBytes(size));
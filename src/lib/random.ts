@@ -0,0 +1,149 @@
+import type { SparkIdConfig, SparkIdRandomSource } from '../types';
+import { SparkIdError } from './errors.js';
+
+/**
+ * Randomness sources
+ *
+ * IDs draw their random bytes from `config.random`, which defaults to the
+ * platform CSPRNG: Web Crypto (`globalThis.crypto.getRandomValues`) in
+ * browsers, Deno, Bun and edge runtimes, and Node's `crypto` module through
+ * the Node entry points. `createSeededGenerator` provides a reproducible
+ * source for snapshot tests and fixtures. It is NOT cryptographically secure
+ * and refuses to run when `NODE_ENV` is `production`.
+ */
+
+// getRandomValues fills at most 65536 bytes per call
+const MAX_RANDOM_VALUES_BYTES = 65536;
+
+// Bytes drawn at a time by batch generators
+const ENTROPY_POOL_SIZE = 16384;
+
+let defaultSource: SparkIdRandomSource = webCryptoRandomBytes;
+
+/**
+ * Fill a buffer from Web Crypto
+ */
+export function webCryptoRandomBytes(size: number): Uint8Array {
+  const crypto = globalThis.crypto;
+  if (typeof crypto?.getRandomValues !== 'function') {
+    throw new SparkIdError(
+      'No secure random source: globalThis.crypto.getRandomValues is not available. Use the Node entry point or pass config.random.',
+      'UNSUPPORTED_RUNTIME'
+    );
+  }
+
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i += MAX_RANDOM_VALUES_BYTES) {
+    crypto.getRandomValues(bytes.subarray(i, i + MAX_RANDOM_VALUES_BYTES));
+  }
+  return bytes;
+}
+
+/**
+ * Replace the platform CSPRNG used when `config.random` is not set
+ */
+export function setDefaultRandomSource(source: SparkIdRandomSource): void {
+  defaultSource = source;
+}
+
+/**
+ * Get the randomness source for a config, checking custom sources return
+ * the requested number of bytes
+ */
+export function getRandomSource(config: SparkIdConfig): SparkIdRandomSource {
+  const random = config.random;
+  if (!random) return defaultSource;
+
+  return (size) => {
+    const bytes = random(size);
+    if (!(bytes instanceof Uint8Array) || bytes.length !== size) {
+      throw new SparkIdError(
+        `Random source returned ${bytes?.length} bytes, expected ${size}`,
+        'INVALID_RANDOM'
+      );
+    }
+    return bytes;
+  };
+}
+
+/**
+ * Wrap a randomness source so it is called for large chunks, which are then
+ * handed out in order. Requests larger than the pool bypass it.
+ */
+export function createEntropyPool(
+  source: SparkIdRandomSource,
+  poolSize = ENTROPY_POOL_SIZE
+): SparkIdRandomSource {
+  let pool: Uint8Array = new Uint8Array(0);
+  let offset = 0;
+
+  return (size) => {
+    if (size > poolSize) return source(size);
+
+    if (offset + size > pool.length) {
+      pool = source(poolSize);
+      offset = 0;
+    }
+
+    offset += size;
+    return pool.slice(offset - size, offset);
+  };
+}
+
+/**
+ * Create a deterministic randomness source: the same seed always yields the
+ * same byte sequence. INSECURE - for tests and fixtures only.
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededGenerator('fixtures')
+ * generateId('USER', { random }) // same ID on every run
+ * ```
+ */
+export function createSeededGenerator(
+  seed: number | string
+): SparkIdRandomSource {
+  assertNotProduction();
+
+  // mulberry32, seeded with the FNV-1a hash of the seed
+  let state = hashSeed(String(seed));
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+
+  return (size) => {
+    assertNotProduction();
+
+    const bytes = new Uint8Array(size);
+    for (let i = 0; i < size; i += 4) {
+      const value = next();
+      for (let j = 0; j < 4 && i + j < size; j++) {
+        bytes[i + j] = (value >>> (j * 8)) & 0xff;
+      }
+    }
+    return bytes;
+  };
+}
+
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function assertNotProduction(): void {
+  if (
+    typeof process !== 'undefined' &&
+    process.env?.NODE_ENV === 'production'
+  ) {
+    throw new SparkIdError(
+      'Seeded generators are insecure and cannot be used when NODE_ENV is "production"',
+      'INSECURE_RANDOM'
+    );
+  }
+}
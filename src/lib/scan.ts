@@ -0,0 +1,178 @@
+import type {
+  ParsedId,
+  SparkIdConfig,
+  SparkIdScanCandidate,
+  SparkIdScanOptions,
+  SparkIdScanResult,
+} from '../types';
+import { CROCKFORD_CHECK_SYMBOLS, isCrockford } from './crockford.js';
+import { resolveAlphabet } from './encoding.js';
+import { InvalidConfigError, InvalidPrefixError } from './errors.js';
+import { SecureId } from './secure-id.js';
+
+/**
+ * ID extraction from free text
+ *
+ * Text is split into tokens at whitespace and common delimiters (quotes,
+ * brackets, `,;:=|/\&?#`), except for characters an ID itself may contain.
+ * Trailing sentence punctuation is dropped. Every token goes through
+ * `SecureId.parse`, so a match is exactly a token `isValidId` accepts.
+ */
+
+const DELIMITERS = '"\'`()[]{}<>,;:=|/\\&?#';
+
+// Dropped from the end of a token, as in "see ORD_123."
+const TRAILING = '.!?';
+
+/**
+ * Find the IDs in a text, with their offsets and parsed components
+ *
+ * With `prefixes`, only IDs with one of them are returned, and tokens that
+ * start with one (and the separator) but fail validation are reported as
+ * `invalid`. Without, every valid ID is returned, and tokens that start
+ * with a registered prefix are the candidates.
+ *
+ * @example
+ * ```typescript
+ * const { ids, invalid } = findIds(log, { prefixes: ['ORD', 'USER'] })
+ * ids[0] // { text: 'ORD_...', start: 12, end: 31, prefix: 'ORD', id: '...', full: 'ORD_...' }
+ * invalid[0] // { text: 'USER_AB!CD...', start: 40, end: 60, code: 'BAD_CHARACTER', error: 'Invalid character', position: 7 }
+ * ```
+ */
+export function findIds(
+  text: string,
+  options: SparkIdScanOptions = {}
+): SparkIdScanResult {
+  const { config } = options;
+  const resolved = SecureId.validateConfig(config);
+  const separator = resolved.separator ?? '_';
+
+  for (const prefix of options.prefixes ?? []) {
+    if (!SecureId.isValidPrefix(prefix, config)) {
+      throw new InvalidPrefixError(prefix);
+    }
+  }
+  const prefixes = (options.prefixes ?? SecureId.getRegisteredPrefixes()).map(
+    (prefix) => prefix.toUpperCase()
+  );
+
+  const idChars = getIdChars(resolved, prefixes, config);
+  const isBoundary = (char: string) =>
+    /\s/.test(char) || (DELIMITERS.includes(char) && !idChars.has(char));
+
+  const result: SparkIdScanResult = { ids: [], invalid: [] };
+  let start = 0;
+
+  while (start < text.length) {
+    if (isBoundary(text[start])) {
+      start++;
+      continue;
+    }
+
+    let end = start;
+    while (end < text.length && !isBoundary(text[end])) end++;
+    const next = end;
+    while (
+      end > start &&
+      TRAILING.includes(text[end - 1]) &&
+      !idChars.has(text[end - 1])
+    ) {
+      end--;
+    }
+
+    const token = text.slice(start, end);
+    const candidate = prefixes.some(
+      (prefix) =>
+        token.slice(0, prefix.length).toUpperCase() === prefix &&
+        token.startsWith(separator, prefix.length)
+    );
+
+    const parsed = parseToken(token, config);
+    if (
+      parsed &&
+      (options.prefixes === undefined ||
+        prefixes.includes(parsed.prefix?.toUpperCase() ?? ''))
+    ) {
+      result.ids.push({ text: token, start, end, ...parsed });
+    } else if (candidate) {
+      result.invalid.push({
+        text: token,
+        start,
+        end,
+        ...describeInvalid(token, parsed, config),
+      });
+    }
+
+    start = next;
+  }
+
+  return result;
+}
+
+/**
+ * Parse a token the way `isValid` does, returning undefined when invalid
+ */
+function parseToken(
+  token: string,
+  config?: Partial<SparkIdConfig>
+): ParsedId | undefined {
+  try {
+    return SecureId.parse(token, config);
+  } catch (error) {
+    if (error instanceof InvalidConfigError) throw error;
+    return undefined;
+  }
+}
+
+/**
+ * Describe why a candidate is not one of the IDs looked for
+ */
+function describeInvalid(
+  token: string,
+  parsed: ParsedId | undefined,
+  config?: Partial<SparkIdConfig>
+): Omit<SparkIdScanCandidate, 'text' | 'start' | 'end'> {
+  // A valid ID whose prefix is longer than the one looked for (ORD_X_...)
+  if (parsed) return { code: 'PREFIX_MISMATCH', error: 'Prefix mismatch' };
+
+  const { code, error, position, expectedLength, actualLength } =
+    SecureId.validate(token, config);
+  return {
+    code: code ?? 'INVALID_FORMAT',
+    error: error ?? 'Invalid ID format',
+    position,
+    expectedLength,
+    actualLength,
+  };
+}
+
+/**
+ * Get the characters IDs may contain, which never end a token: the
+ * separator and the body characters of the base and prefix configs
+ */
+function getIdChars(
+  resolved: Readonly<SparkIdConfig>,
+  prefixes: string[],
+  config?: Partial<SparkIdConfig>
+): Set<string> {
+  const configs = [
+    resolved,
+    ...prefixes.map((prefix) =>
+      SecureId.validateConfig({
+        ...SecureId.getPrefixConfig(prefix),
+        ...config,
+      })
+    ),
+  ];
+
+  let chars = resolved.separator ?? '_';
+  for (const each of configs) {
+    const alphabet = resolveAlphabet(each);
+    chars += alphabet.toLowerCase() + alphabet.toUpperCase();
+    if (isCrockford(each)) {
+      chars += `-${CROCKFORD_CHECK_SYMBOLS}${CROCKFORD_CHECK_SYMBOLS.toUpperCase()}`;
+    }
+  }
+
+  return new Set(chars);
+}
@@ -0,0 +1,68 @@
+import type {
+  SparkIdJsonSchema,
+  SparkIdSchemaOptions,
+  SparkIdValidationResult,
+} from '../types';
+import { defineIdType } from './id-type.js';
+import { toPattern } from './pattern.js';
+import { SecureId } from './secure-id.js';
+
+/**
+ * Schema-validator integrations
+ *
+ * The Zod, Valibot and Yup builders (`@aexoo-ai/spark-id/zod`, `/valibot`,
+ * `/yup`) share one check, so each library reports the same validation
+ * code (e.g. `BAD_LENGTH`, `PREFIX_MISMATCH`) as its issue message. The
+ * libraries are optional peer dependencies: each subpath imports only its
+ * own.
+ */
+
+/**
+ * Create a check that returns the validation code for an invalid ID, or
+ * undefined for a valid one. The prefix and config are validated up front.
+ */
+export function createIdCheck(
+  options: SparkIdSchemaOptions<string> = {}
+): (value: string) => string | undefined {
+  const { prefix, config } = options;
+  let validate: (value: string) => SparkIdValidationResult;
+
+  if (prefix === undefined) {
+    SecureId.validateConfig(config);
+    validate = (value) => SecureId.validate(value, config);
+  } else {
+    validate = defineIdType(prefix, config).validate;
+  }
+
+  return (value) => {
+    const result = validate(value);
+    return result.isValid ? undefined : (result.code ?? 'INVALID_FORMAT');
+  };
+}
+
+/**
+ * Build a JSON Schema for IDs with a prefix (any prefix, or none, when
+ * omitted), e.g. for OpenAPI specs. The pattern is `toPattern`'s, with the
+ * prefix in its configured case as the schema builders require, so check
+ * characters are not verified.
+ *
+ * @example
+ * ```typescript
+ * sparkIdJsonSchema({ prefix: 'USER' })
+ * // { type: 'string', pattern: '^USER_[...]{15}$' }
+ * ```
+ */
+export function sparkIdJsonSchema(
+  options: SparkIdSchemaOptions<string> = {}
+): SparkIdJsonSchema {
+  return {
+    type: 'string',
+    pattern: toPattern(options.config, {
+      prefixes:
+        options.prefix === undefined
+          ? undefined
+          : [SecureId.formatPrefix(options.prefix, options.config)],
+      exactPrefixCase: true,
+    }),
+  };
+}
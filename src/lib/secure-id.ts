@@ -1,20 +1,64 @@
-import { randomBytes } from 'crypto';
 import type {
+  ParsedId,
   SparkIdConfig,
+  SparkIdDiagnostics,
+  SparkIdGenerator,
+  SparkIdJSON,
+  SparkIdMetadata,
+  SparkIdParseOptions,
+  SparkIdRandomSource,
   SparkIdStats,
   SparkIdValidationResult,
 } from '../types';
 import { DEFAULT_CONFIG } from '../types.js';
+import { LEGACY_ALPHABET, getDetectableAlphabets } from './alphabets.js';
+import {
+  computeChecksum,
+  getChecksumLength,
+  verifyChecksum,
+} from './checksum.js';
+import { assertValidConfig, assertValidPrefixConfig } from './config.js';
+import { isCrockford, normalizeCrockford } from './crockford.js';
+import {
+  decodeBytes,
+  encodeBytes,
+  encodeRandom,
+  getEncodedLength,
+  isCaseSensitive,
+  isInAlphabet,
+  resolveAlphabet,
+} from './encoding.js';
+import {
+  InvalidConfigError,
+  InvalidIdError,
+  InvalidPrefixError,
+  SparkIdError,
+} from './errors.js';
+import {
+  decodeMachineId,
+  encodeMachineId,
+  getMachineIdLength,
+  hasMachineIdSlot,
+} from './machine-id.js';
+import { createEntropyPool, getRandomSource } from './random.js';
+import {
+  decodeTimestamp,
+  encodeTimestamp,
+  getTimestampLength,
+} from './timestamp.js';
 
 /**
  * Secure ID Generator with optional prefix support
  *
  * Features:
  * - Cryptographically secure (72 bits entropy)
- * - URL-safe Z-Base32 encoding
+ * - URL-safe Z-Base32 encoding (hex, base58, base62, base64, Crockford and
+ *   custom alphabets also supported)
  * - Optional prefix support (e.g., "USER_", "TXN_")
  * - Collision-resistant
  * - Human-readable (all uppercase)
+ * - Optional time-ordered mode for lexically sortable IDs
+ * - Optional machine ID slot for distributed, node-tagged IDs
  * - Comprehensive error handling
  *
  * @example
@@ -36,43 +80,45 @@ import { DEFAULT_CONFIG } from '../types.js';
  * ```
  */
 
-// Custom error classes for better error handling
-export class SparkIdError extends Error {
-  constructor(
-    message: string,
-    public code?: string
-  ) {
-    super(message);
-    this.name = 'SparkIdError';
-  }
-}
+// Error classes are part of the public API
+export { InvalidConfigError, InvalidIdError, InvalidPrefixError, SparkIdError };
 
-export class InvalidPrefixError extends SparkIdError {
-  constructor(prefix: string) {
-    super(
-      `Invalid prefix: "${prefix}". Prefix must contain only alphanumeric characters and underscores, and be between 1-20 characters.`,
-      'INVALID_PREFIX'
-    );
-    this.name = 'InvalidPrefixError';
-  }
+// First problem found in an ID body
+interface RawIdProblem extends SparkIdDiagnostics {
+  code: string;
+  reason: string;
 }
 
-export class InvalidIdError extends SparkIdError {
-  constructor(id: string, reason?: string) {
-    super(
-      `Invalid ID: "${id}". ${reason || 'ID format is not valid.'}`,
-      'INVALID_ID'
-    );
-    this.name = 'InvalidIdError';
-  }
-}
+// Short descriptions of validation failures, by code
+const VALIDATION_ERRORS: Record<string, string> = {
+  BAD_LENGTH: 'Wrong length',
+  BAD_CHARACTER: 'Invalid character',
+  BAD_PREFIX: 'Invalid prefix',
+  TOO_MANY_SEPARATORS: 'Too many separators',
+  BAD_MACHINE_ID: 'Machine ID out of range',
+  CHECKSUM_MISMATCH: 'Checksum mismatch',
+  UNKNOWN_PREFIX: 'Unknown prefix',
+};
+
+// Fields every resolved config can carry, listed once
+const CONFIG_KEYS = new Set(Object.keys(DEFAULT_CONFIG)) as ReadonlySet<
+  keyof SparkIdConfig
+>;
+
 export class SecureId {
-  // Global configuration
-  private static globalConfig: SparkIdConfig = { ...DEFAULT_CONFIG };
+  // Generator behind the static API; configure() and resetConfig() replace it
+  private static defaultGenerator: SparkIdGenerator =
+    SecureId.createGenerator();
+
+  // Config of the generator whose method is running, if any
+  private static activeConfig?: SparkIdConfig;
+
+  // Registered prefixes (keyed in upper case) and their config overrides
+  private static prefixRegistry = new Map<string, Partial<SparkIdConfig>>();
 
   // Legacy constants (deprecated, use config instead)
   private static readonly Z_BASE32_ALPHABET =
-    'yvndrfg9ejkmcpqxwt2uwxsza345h769';
+    'ybndrfg8ejkmcpqxot1uwisza345h769';
   private static readonly BYTES_LENGTH = 9;
   private static readonly PREFIX_SEPARATOR = '_';
   private static readonly MAX_PREFIX_LENGTH = 50; // Prevent extremely long prefixes
@@ -81,45 +127,47 @@ export class SecureId {
   public readonly id: string;
   public readonly prefix?: string;
   public readonly full: string;
+  // Effective config the ID was created with
+  public readonly config: Readonly<SparkIdConfig>;
 
   constructor(id?: string, prefix?: string, config?: Partial<SparkIdConfig>) {
-    // Validate prefix if provided
-    if (prefix !== undefined && !SecureId.isValidPrefix(prefix, config)) {
-      throw new InvalidPrefixError(prefix);
-    }
+    config = SecureId.withPrefixConfig(prefix, config);
+    const resolved = SecureId.resolveValidConfig(config);
 
-    const separator = SecureId.getConfigValue('separator', config) ?? '_';
-    const caseSetting = SecureId.getConfigValue('case', config) ?? 'upper';
-
-    // Apply case setting to prefix
-    let formattedPrefix: string | undefined;
-    if (prefix) {
-      switch (caseSetting) {
-        case 'lower':
-          formattedPrefix = prefix.toLowerCase();
-          break;
-        case 'upper':
-          formattedPrefix = prefix.toUpperCase();
-          break;
-        case 'mixed':
-          formattedPrefix = prefix; // Keep as provided
-          break;
-        default:
-          formattedPrefix = prefix.toUpperCase();
-      }
-    }
+    SecureId.assertGeneratablePrefix(prefix, resolved);
 
-    this.id = id || SecureId.generateRaw(config);
+    const separator = resolved.separator ?? '_';
+    const formattedPrefix = prefix
+      ? SecureId.formatPrefix(prefix, resolved)
+      : undefined;
+
+    this.id =
+      id || SecureId.createRawGenerator(resolved, getRandomSource(resolved))();
+    this.config = Object.freeze(resolved);
     this.prefix = formattedPrefix;
     this.full = formattedPrefix
       ? `${formattedPrefix}${separator}${this.id}`
       : this.id;
   }
 
+  /**
+   * Apply the case setting to a prefix
+   */
+  static formatPrefix(prefix: string, config?: Partial<SparkIdConfig>): string {
+    switch (SecureId.getConfigValue('case', config) ?? 'upper') {
+      case 'lower':
+        return prefix.toLowerCase();
+      case 'mixed':
+        return prefix; // Keep as provided
+      default:
+        return prefix.toUpperCase();
+    }
+  }
+
   /**
    * Validate prefix format
    */
-  private static isValidPrefix(
+  static isValidPrefix(
     prefix: string,
     config?: Partial<SparkIdConfig>
   ): boolean {
@@ -138,22 +186,116 @@ export class SecureId {
     return this.PREFIX_REGEX.test(prefix);
   }
 
+  /**
+   * Check a prefix an ID is about to be minted with. Strict mode only
+   * accepts registered prefixes, so it does not mint IDs it would reject.
+   */
+  private static assertGeneratablePrefix(
+    prefix: string | undefined,
+    resolved: SparkIdConfig
+  ): void {
+    if (prefix !== undefined && !SecureId.isValidPrefix(prefix, resolved)) {
+      throw new InvalidPrefixError(prefix);
+    }
+
+    if (
+      resolved.strictPrefixes &&
+      (prefix === undefined ||
+        !SecureId.prefixRegistry.has(prefix.toUpperCase()))
+    ) {
+      throw new SparkIdError(
+        prefix === undefined
+          ? 'strictPrefixes is set, so IDs need a registered prefix'
+          : `Prefix "${prefix}" is not registered, so strictPrefixes rejects it`,
+        'UNKNOWN_PREFIX'
+      );
+    }
+  }
+
   /**
    * Generate a new raw ID (without prefix)
    */
   static generateRaw(config?: Partial<SparkIdConfig>): string {
-    const entropyBits = SecureId.getConfigValue('entropyBits', config) ?? 72;
-    const alphabet =
-      SecureId.getConfigValue('alphabet', config) ??
-      'yvndrfg9ejkmcpqxwt2uwxsza345h769';
-    const caseSetting = SecureId.getConfigValue('case', config) ?? 'upper';
+    const resolved = SecureId.resolveValidConfig(config);
+    return SecureId.createRawGenerator(resolved, getRandomSource(resolved))();
+  }
+
+  /**
+   * Build a raw ID generator for a resolved configuration. The alphabet and
+   * layout are worked out once, so batches only pay for encoding.
+   */
+  private static createRawGenerator(
+    resolved: SparkIdConfig,
+    random: SparkIdRandomSource
+  ): () => string {
+    const alphabet = resolveAlphabet(resolved);
+    if (alphabet === LEGACY_ALPHABET) {
+      throw new SparkIdError(
+        'The legacy alphabet can only read existing IDs; generate new IDs with a current alphabet',
+        'INVALID_ALPHABET'
+      );
+    }
 
-    const bytesLength = Math.ceil(entropyBits / 8);
-    const bytes = randomBytes(bytesLength);
-    const encoded = SecureId.base32Encode(bytes, alphabet);
+    const bytesLength = Math.ceil((resolved.entropyBits ?? 72) / 8);
+    const randomLength =
+      resolved.length !== undefined
+        ? SecureId.getRandomLength(alphabet, resolved)
+        : undefined;
+    const machineIdSlot = hasMachineIdSlot(resolved)
+      ? encodeMachineId(alphabet, resolved)
+      : '';
+
+    return () => {
+      // Fixed-length mode draws characters directly; otherwise encode bytes
+      let encoded =
+        randomLength !== undefined
+          ? encodeRandom(randomLength, alphabet, random)
+          : encodeBytes(random(bytesLength), alphabet);
+
+      // Node-tagged mode: prepend the machine ID slot
+      encoded = machineIdSlot + encoded;
+
+      // Time-ordered mode: prepend the sortable timestamp and counter
+      if (resolved.timestamp) {
+        encoded = encodeTimestamp(alphabet, resolved) + encoded;
+      }
+
+      return SecureId.applyCase(
+        encoded + computeChecksum(encoded, alphabet, resolved),
+        alphabet,
+        resolved
+      );
+    };
+  }
+
+  /**
+   * Bring a body into canonical form. Crockford bodies are read leniently
+   * (hyphens, I/L/O and case); all other bodies are returned unchanged.
+   */
+  private static canonicalize(rawId: string, config: SparkIdConfig): string {
+    if (!isCrockford(config)) return rawId;
+    return SecureId.applyCase(
+      normalizeCrockford(rawId),
+      resolveAlphabet(config),
+      config
+    );
+  }
+
+  /**
+   * Apply the case setting to an encoded ID body
+   */
+  private static applyCase(
+    encoded: string,
+    alphabet: string,
+    config: SparkIdConfig
+  ): string {
+    // Case-sensitive alphabets (base58, base62, base64) keep their case
+    if (isCaseSensitive(alphabet)) {
+      return encoded;
+    }
 
     // Apply case setting
-    switch (caseSetting) {
+    switch (config.case ?? 'upper') {
       case 'lower':
         return encoded.toLowerCase();
       case 'upper':
@@ -169,31 +311,19 @@ export class SecureId {
    * Generate a new ID with optional prefix and configuration
    */
   static generate(prefix?: string, config?: Partial<SparkIdConfig>): string {
-    if (prefix !== undefined && !SecureId.isValidPrefix(prefix, config)) {
-      throw new InvalidPrefixError(prefix);
-    }
+    config = SecureId.withPrefixConfig(prefix, config);
+    const resolved = SecureId.resolveValidConfig(config);
 
-    const rawId = SecureId.generateRaw(config);
-    const separator = SecureId.getConfigValue('separator', config) ?? '_';
-    const caseSetting = SecureId.getConfigValue('case', config) ?? 'upper';
-
-    // Apply case setting to prefix
-    let formattedPrefix: string | undefined;
-    if (prefix) {
-      switch (caseSetting) {
-        case 'lower':
-          formattedPrefix = prefix.toLowerCase();
-          break;
-        case 'upper':
-          formattedPrefix = prefix.toUpperCase();
-          break;
-        case 'mixed':
-          formattedPrefix = prefix; // Keep as provided
-          break;
-        default:
-          formattedPrefix = prefix.toUpperCase();
-      }
-    }
+    SecureId.assertGeneratablePrefix(prefix, resolved);
+
+    const rawId = SecureId.createRawGenerator(
+      resolved,
+      getRandomSource(resolved)
+    )();
+    const separator = resolved.separator ?? '_';
+    const formattedPrefix = prefix
+      ? SecureId.formatPrefix(prefix, resolved)
+      : undefined;
 
     return formattedPrefix ? `${formattedPrefix}${separator}${rawId}` : rawId;
   }
@@ -205,46 +335,400 @@ export class SecureId {
     return new SecureId(undefined, prefix, config);
   }
 
+  /**
+   * Generate IDs lazily for high-volume use (e.g. seeding millions of rows).
+   * The config is resolved once and random bytes are drawn from a pooled
+   * buffer. Omit `count` for an endless iterator.
+   */
+  static generateBatch(
+    count: number = Infinity,
+    prefix?: string,
+    config?: Partial<SparkIdConfig>
+  ): IterableIterator<string> {
+    if (!(count >= 0 && (Number.isInteger(count) || count === Infinity))) {
+      throw new SparkIdError(
+        'Count must be a non-negative integer',
+        'INVALID_COUNT'
+      );
+    }
+
+    const next = SecureId.createIdGenerator(prefix, config);
+    return (function* () {
+      for (let i = 0; i < count; i++) yield next();
+    })();
+  }
+
+  /**
+   * Fill a preallocated array with new IDs, using the same pooled path as
+   * `generateBatch`
+   */
+  static fillIds(
+    target: string[],
+    prefix?: string,
+    config?: Partial<SparkIdConfig>
+  ): string[] {
+    const next = SecureId.createIdGenerator(prefix, config);
+    for (let i = 0; i < target.length; i++) {
+      target[i] = next();
+    }
+    return target;
+  }
+
+  /**
+   * Build a prefixed ID generator that draws from a pooled entropy buffer
+   */
+  private static createIdGenerator(
+    prefix?: string,
+    config?: Partial<SparkIdConfig>
+  ): () => string {
+    config = SecureId.withPrefixConfig(prefix, config);
+    const resolved = SecureId.resolveValidConfig(config);
+
+    SecureId.assertGeneratablePrefix(prefix, resolved);
+
+    const nextRaw = SecureId.createRawGenerator(
+      resolved,
+      createEntropyPool(getRandomSource(resolved))
+    );
+    const head = prefix
+      ? `${SecureId.formatPrefix(prefix, resolved)}${resolved.separator ?? '_'}`
+      : '';
+
+    return () => head + nextRaw();
+  }
+
+  /**
+   * Decode the random payload of an ID, e.g. to store it as `BINARY(9)`.
+   * IDs with a timestamp or machine ID slot are not supported.
+   */
+  static toBytes(
+    idString: string,
+    config?: Partial<SparkIdConfig>
+  ): Uint8Array {
+    const parsed = SecureId.parse(idString, config);
+    const resolved = SecureId.getBinaryConfig(
+      SecureId.withPrefixConfig(parsed.prefix, config)
+    );
+    const alphabet = resolveAlphabet(resolved);
+    const checksumLength = getChecksumLength(alphabet, resolved);
+    const bytes = decodeBytes(
+      parsed.id.slice(0, parsed.id.length - checksumLength),
+      alphabet,
+      Math.ceil((resolved.entropyBits ?? 72) / 8)
+    );
+
+    if (!bytes) {
+      throw new InvalidIdError(idString, 'ID is not a canonical encoding');
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Rebuild an ID from the payload returned by `toBytes`
+   */
+  static fromBytes(
+    bytes: Uint8Array,
+    prefix?: string,
+    config?: Partial<SparkIdConfig>
+  ): SecureId {
+    config = SecureId.withPrefixConfig(prefix, config);
+    const resolved = SecureId.getBinaryConfig(config);
+    const alphabet = resolveAlphabet(resolved);
+    const bytesLength = Math.ceil((resolved.entropyBits ?? 72) / 8);
+
+    if (!(bytes instanceof Uint8Array) || bytes.length !== bytesLength) {
+      throw new SparkIdError(
+        `Expected ${bytesLength} bytes for ${resolved.entropyBits ?? 72} bits of entropy. Got ${bytes?.length}.`,
+        'INVALID_BYTES'
+      );
+    }
+
+    const encoded = encodeBytes(bytes, alphabet);
+    const rawId = SecureId.applyCase(
+      encoded + computeChecksum(encoded, alphabet, resolved),
+      alphabet,
+      resolved
+    );
+    return new SecureId(rawId, prefix, config);
+  }
+
+  /**
+   * Get the effective config for binary conversion, rejecting ID layouts
+   * that carry more than the random payload
+   */
+  private static getBinaryConfig(
+    config?: Partial<SparkIdConfig>
+  ): SparkIdConfig {
+    const resolved = SecureId.resolveValidConfig(config);
+
+    if (
+      resolved.timestamp ||
+      hasMachineIdSlot(resolved) ||
+      resolved.length !== undefined
+    ) {
+      throw new SparkIdError(
+        'Binary conversion is not supported for IDs with a timestamp, machine ID or fixed length',
+        'UNSUPPORTED_CONFIG'
+      );
+    }
+
+    // Legacy digits repeat, so bodies do not map back to unique bytes
+    if (resolveAlphabet(resolved) === LEGACY_ALPHABET) {
+      throw new SparkIdError(
+        'Binary conversion is not supported for the legacy alphabet',
+        'UNSUPPORTED_CONFIG'
+      );
+    }
+
+    return resolved;
+  }
+
   /**
    * Parse an ID string into components
    */
   static parse(
     idString: string,
+    config?: Partial<SparkIdConfig>,
+    options?: SparkIdParseOptions
+  ): ParsedId {
+    const resolved = SecureId.resolveValidConfig(config);
+    const parsed = SecureId.parseWith(idString, resolved, config);
+    return options?.canonical
+      ? SecureId.formatParsed(parsed, resolved, config, true)
+      : parsed;
+  }
+
+  /**
+   * Parse an ID with a config the caller has already resolved and checked
+   */
+  private static parseWith(
+    idString: string,
+    resolved: SparkIdConfig,
     config?: Partial<SparkIdConfig>
-  ): {
-    prefix?: string;
-    id: string;
-    full: string;
-  } {
+  ): ParsedId {
+    const separator = resolved.separator ?? '_';
+
     if (typeof idString !== 'string') {
       throw new InvalidIdError(idString, 'ID must be a string');
     }
 
     if (idString.length === 0) {
-      throw new InvalidIdError(idString, 'ID cannot be empty');
+      throw new InvalidIdError(idString, 'ID cannot be empty', 'BAD_LENGTH', {
+        expectedLength: SecureId.getBodyLength(
+          resolveAlphabet(resolved),
+          resolved
+        ),
+        actualLength: 0,
+      });
     }
 
-    const separator = SecureId.getConfigValue('separator', config) ?? '_';
-    const parts = idString.split(separator);
+    // Prefixes may contain the separator (ORG_TEAM) and some alphabets
+    // include it, so try every split from the last separator backwards,
+    // then the whole string as a bare ID. Only splits that leave a short
+    // enough prefix can succeed, which keeps long input linear.
+    const maxPrefixLength = resolved.maxPrefixLength ?? 20;
+    const positions: (number | undefined)[] = [];
+    let index = idString.lastIndexOf(separator, maxPrefixLength);
+    while (index >= 0) {
+      positions.push(index);
+      index = index > 0 ? idString.lastIndexOf(separator, index - 1) : -1;
+    }
+    positions.push(undefined);
+
+    // Report the most likely failure: the first split tried, starting with
+    // the last separator even when its prefix is too long. Bad prefixes are
+    // described only once every split has failed.
+    const last = idString.lastIndexOf(separator);
+    let failure: { error?: unknown; prefixEnd?: number } | undefined =
+      last > maxPrefixLength ? { prefixEnd: last } : undefined;
+
+    for (const position of positions) {
+      if (
+        position !== undefined &&
+        !SecureId.isValidPrefix(idString.slice(0, position), resolved)
+      ) {
+        failure ??= { prefixEnd: position };
+        continue;
+      }
 
-    if (parts.length === 1) {
-      const id = parts[0];
-      if (!SecureId.isValidRawId(id, config)) {
-        throw new InvalidIdError(idString, 'Invalid ID format');
+      try {
+        return SecureId.parseAt(idString, position, resolved, config);
+      } catch (error) {
+        failure ??= { error };
       }
-      return { id, full: id };
     }
 
-    if (parts.length === 2) {
-      const prefix = parts[0];
-      const id = parts[1];
-      if (!SecureId.isValidRawId(id, config)) {
-        throw new InvalidIdError(idString, 'Invalid ID format');
+    throw failure?.prefixEnd === undefined
+      ? failure?.error
+      : SecureId.getPrefixError(
+          idString,
+          idString.slice(0, failure.prefixEnd),
+          resolved
+        );
+  }
+
+  /**
+   * Parse an ID split at a given separator position (bare ID if undefined).
+   * The prefix has already been checked.
+   */
+  private static parseAt(
+    idString: string,
+    position: number | undefined,
+    resolved: SparkIdConfig,
+    config?: Partial<SparkIdConfig>
+  ): ParsedId {
+    const separator = resolved.separator ?? '_';
+    const prefix =
+      position === undefined ? undefined : idString.slice(0, position);
+    const body =
+      position === undefined
+        ? idString
+        : idString.slice(position + separator.length);
+
+    // Strict mode only accepts registered prefixes
+    if (
+      resolved.strictPrefixes &&
+      (prefix === undefined ||
+        !SecureId.prefixRegistry.has(prefix.toUpperCase()))
+    ) {
+      throw new InvalidIdError(
+        idString,
+        prefix === undefined
+          ? 'ID has no registered prefix'
+          : `Unknown prefix "${prefix}"`,
+        'UNKNOWN_PREFIX'
+      );
+    }
+
+    // The body is checked against the prefix's own config, if registered
+    const effective = SecureId.resolvePrefixConfig(prefix, resolved, config);
+    SecureId.assertValidRawId(
+      idString,
+      body,
+      effective,
+      idString.length - body.length
+    );
+    const id = SecureId.canonicalize(body, effective);
+
+    const parsed: ParsedId =
+      prefix === undefined
+        ? { id, full: id }
+        : {
+            prefix,
+            prefixPath: prefix.split(separator),
+            id,
+            full: `${prefix}${separator}${id}`,
+          };
+    return SecureId.withMetadata(parsed, effective);
+  }
+
+  /**
+   * Apply the configured case to the prefix and body of a parsed ID. With
+   * `fixedCase`, `mixed` is read as `upper` so every spelling of an ID maps
+   * to one form; case-sensitive bodies are never changed.
+   */
+  private static formatParsed(
+    parsed: ParsedId,
+    resolved: SparkIdConfig,
+    config: Partial<SparkIdConfig> | undefined,
+    fixedCase: boolean
+  ): ParsedId {
+    let effective = SecureId.resolvePrefixConfig(
+      parsed.prefix,
+      resolved,
+      config
+    );
+    if (fixedCase && effective.case !== 'lower') {
+      effective = { ...effective, case: 'upper' };
+    }
+
+    const id = SecureId.applyCase(
+      parsed.id,
+      resolveAlphabet(effective),
+      effective
+    );
+    if (parsed.prefix === undefined) return { ...parsed, id, full: id };
+
+    const separator = resolved.separator ?? '_';
+    const prefix = SecureId.formatPrefix(parsed.prefix, effective);
+    return {
+      ...parsed,
+      prefix,
+      prefixPath: prefix.split(separator),
+      id,
+      full: `${prefix}${separator}${id}`,
+    };
+  }
+
+  /**
+   * Describe why the prefix of an ID is not valid
+   */
+  private static getPrefixError(
+    idString: string,
+    prefix: string,
+    resolved: SparkIdConfig
+  ): InvalidIdError {
+    const separator = resolved.separator ?? '_';
+    const maxPrefixLength = resolved.maxPrefixLength ?? 20;
+    let badIndex = 0;
+    while (
+      badIndex < prefix.length &&
+      SecureId.PREFIX_REGEX.test(prefix[badIndex])
+    ) {
+      badIndex++;
+    }
+
+    // A separator inside the prefix means the ID was split too many times
+    if (badIndex < prefix.length && prefix.startsWith(separator, badIndex)) {
+      return new InvalidIdError(
+        idString,
+        `Unexpected separator "${separator}" at position ${badIndex}`,
+        'TOO_MANY_SEPARATORS',
+        { position: badIndex }
+      );
+    }
+
+    return new InvalidIdError(
+      idString,
+      `Invalid prefix "${prefix}"`,
+      'BAD_PREFIX',
+      // Empty, too long, or containing a character prefixes cannot use
+      {
+        position:
+          badIndex < prefix.length
+            ? badIndex
+            : Math.min(prefix.length, maxPrefixLength),
       }
-      return { prefix, id, full: idString };
+    );
+  }
+
+  /**
+   * Attach the embedded creation time and machine ID to a parsed ID
+   */
+  private static withMetadata(
+    parsed: ParsedId,
+    resolved: SparkIdConfig
+  ): ParsedId {
+    const alphabet = resolveAlphabet(resolved);
+    const timestampLength = resolved.timestamp
+      ? getTimestampLength(alphabet)
+      : 0;
+    const result: ParsedId = { ...parsed };
+
+    if (resolved.timestamp) {
+      result.timestamp = decodeTimestamp(parsed.id, alphabet, resolved);
     }
 
-    throw new InvalidIdError(idString, 'ID contains too many separators');
+    if (hasMachineIdSlot(resolved)) {
+      const slot = parsed.id.slice(
+        timestampLength,
+        timestampLength + getMachineIdLength(alphabet, resolved)
+      );
+      result.machineId = decodeMachineId(slot, alphabet, resolved);
+    }
+
+    return result;
   }
 
   /**
@@ -252,84 +736,408 @@ export class SecureId {
    */
   static isValid(idString: string, config?: Partial<SparkIdConfig>): boolean {
     try {
-      const parsed = SecureId.parse(idString, config);
-      return SecureId.isValidRawId(parsed.id, config);
-    } catch {
+      SecureId.parse(idString, config);
+      return true;
+    } catch (error) {
+      // A broken config is a programming error, not an invalid ID
+      if (error instanceof InvalidConfigError) throw error;
       return false;
     }
   }
 
+  /**
+   * Validate an ID and describe the first problem found. Valid IDs that
+   * differ from their canonical form only in case carry a `suggestion`.
+   */
+  static validate(
+    idString: string,
+    config?: Partial<SparkIdConfig>
+  ): SparkIdValidationResult {
+    const resolved = SecureId.resolveValidConfig(config);
+    let parsed: ParsedId;
+    try {
+      parsed = SecureId.parseWith(idString, resolved, config);
+    } catch (error) {
+      if (
+        error instanceof InvalidIdError &&
+        error.code &&
+        error.code in VALIDATION_ERRORS
+      ) {
+        return {
+          isValid: false,
+          error: VALIDATION_ERRORS[error.code],
+          code: error.code,
+          ...error.diagnostics,
+        };
+      }
+      return {
+        isValid: false,
+        error: 'Invalid ID format',
+        code: 'INVALID_FORMAT',
+      };
+    }
+
+    const result: SparkIdValidationResult = {
+      isValid: true,
+      error: undefined,
+      code: undefined,
+    };
+    const canonical = SecureId.formatParsed(
+      parsed,
+      resolved,
+      config,
+      false
+    ).full;
+    if (
+      canonical !== idString &&
+      canonical.toUpperCase() === idString.toUpperCase()
+    ) {
+      result.suggestion = canonical;
+    }
+    return result;
+  }
+
   /**
    * Validate if a raw ID (without prefix) is valid
    */
   static isValidRawId(rawId: string, config?: Partial<SparkIdConfig>): boolean {
     if (!rawId || typeof rawId !== 'string') return false;
 
-    const alphabet =
-      SecureId.getConfigValue('alphabet', config) ??
-      'yvndrfg9ejkmcpqxwt2uwxsza345h769';
-    const entropyBits = SecureId.getConfigValue('entropyBits', config) ?? 72;
+    return (
+      SecureId.checkRawId(rawId, SecureId.resolveValidConfig(config)) ===
+      undefined
+    );
+  }
 
-    // Calculate length bounds based on entropy bits
-    const minLength = Math.floor(entropyBits / 5);
-    const maxLength = Math.ceil(entropyBits / 5);
+  /**
+   * Throw an `InvalidIdError` if a raw ID is not valid
+   */
+  private static assertValidRawId(
+    idString: string,
+    rawId: string,
+    config: SparkIdConfig,
+    offset = 0
+  ): void {
+    const problem = SecureId.checkRawId(rawId, config);
+    if (!problem) return;
+
+    const { code, reason, ...diagnostics } = problem;
+    if (diagnostics.position !== undefined) diagnostics.position += offset;
+    throw new InvalidIdError(idString, reason, code, diagnostics);
+  }
 
-    // Performance optimization: check length first
-    if (rawId.length < minLength || rawId.length > maxLength) return false;
+  /**
+   * Check a raw ID and describe the first problem, if any. Positions are
+   * relative to the raw ID.
+   */
+  private static checkRawId(
+    rawId: string,
+    config: SparkIdConfig
+  ): RawIdProblem | undefined {
+    const alphabet = resolveAlphabet(config);
+
+    // Crockford bodies are read leniently: normalize before checking
+    const crockford = isCrockford(config);
+    const id = crockford ? normalizeCrockford(rawId) : rawId;
+    const checksumLength = getChecksumLength(alphabet, config);
+    const expectedLength = SecureId.getBodyLength(alphabet, config);
 
-    return rawId
-      .split('')
-      .every((char) => alphabet.includes(char.toLowerCase()));
-  }
+    // Performance optimization: check length first
+    if (id.length !== expectedLength) {
+      return {
+        code: 'BAD_LENGTH',
+        reason: `Expected ${expectedLength} characters, got ${id.length}`,
+        expectedLength,
+        actualLength: id.length,
+      };
+    }
 
-  private static base32Encode(
-    buffer: Buffer,
-    alphabet: string = SecureId.Z_BASE32_ALPHABET
-  ): string {
-    // For now, only support base32 encoding (32 characters)
-    // In the future, we can add support for other encodings
-    if (alphabet.length !== 32) {
-      throw new SparkIdError(
-        `Alphabet must have exactly 32 characters for base32 encoding. Got ${alphabet.length} characters.`,
-        'INVALID_ALPHABET'
+    const body = id.slice(0, id.length - checksumLength);
+    if (!isInAlphabet(body, alphabet)) {
+      const position = SecureId.findBadCharacter(
+        rawId,
+        body.length,
+        alphabet,
+        crockford
       );
+      return {
+        code: 'BAD_CHARACTER',
+        reason: `Invalid character "${String.fromCodePoint(rawId.codePointAt(position)!)}" at position ${position}`,
+        position,
+      };
     }
 
-    let value = 0;
-    let bits = 0;
-    let result = '';
+    // The machine ID slot must fit the declared bit width
+    const machineIdLength = getMachineIdLength(alphabet, config);
+    if (machineIdLength > 0) {
+      const start = config.timestamp ? getTimestampLength(alphabet) : 0;
+      const slot = body.slice(start, start + machineIdLength);
+      if (decodeMachineId(slot, alphabet, config) === undefined) {
+        return {
+          code: 'BAD_MACHINE_ID',
+          reason: 'Machine ID is out of range',
+          position: SecureId.toRawPosition(rawId, start, crockford),
+        };
+      }
+    }
 
-    for (let i = 0; i < buffer.length; i++) {
-      value = (value << 8) | buffer[i];
-      bits += 8;
+    // The check characters must match the body
+    if (
+      checksumLength > 0 &&
+      !verifyChecksum(body, id.slice(body.length), alphabet, config)
+    ) {
+      return { code: 'CHECKSUM_MISMATCH', reason: 'Checksum does not match' };
+    }
+
+    return undefined;
+  }
 
-      while (bits >= 5) {
-        result += alphabet[(value >>> (bits - 5)) & 31];
-        bits -= 5;
+  /**
+   * Map an index among the digits of a raw ID to its index in the raw ID,
+   * counting the hyphens of lenient Crockford bodies
+   */
+  private static toRawPosition(
+    rawId: string,
+    index: number,
+    crockford: boolean
+  ): number {
+    if (!crockford) return index;
+
+    let position = 0;
+    for (let digits = 0; position < rawId.length; position++) {
+      if (rawId[position] === '-') continue;
+      if (digits === index) break;
+      digits++;
+    }
+    return position;
+  }
+
+  /**
+   * Find the index of the first character outside the alphabet among the
+   * first `length` body characters of a raw ID (Crockford hyphens skipped)
+   */
+  private static findBadCharacter(
+    rawId: string,
+    length: number,
+    alphabet: string,
+    crockford: boolean
+  ): number {
+    let index = 0;
+    let checked = 0;
+
+    for (const char of rawId) {
+      if (checked === length) break;
+      if (!(crockford && char === '-')) {
+        const digit = crockford ? normalizeCrockford(char) : char;
+        if (!isInAlphabet(digit, alphabet)) return index;
+        checked++;
       }
+      index += char.length;
     }
 
-    if (bits > 0) {
-      result += alphabet[(value << (5 - bits)) & 31];
+    return index;
+  }
+
+  /**
+   * Get the number of characters in the body of IDs generated with a
+   * configuration (without prefix and separator), including check characters
+   */
+  static getIdLength(config?: Partial<SparkIdConfig>): number {
+    const resolved = SecureId.resolveValidConfig(config);
+    return SecureId.getBodyLength(resolveAlphabet(resolved), resolved);
+  }
+
+  /**
+   * Get the exact body length, including check characters
+   */
+  private static getBodyLength(
+    alphabet: string,
+    config: SparkIdConfig
+  ): number {
+    return (
+      SecureId.getExpectedLength(alphabet, config) +
+      getChecksumLength(alphabet, config)
+    );
+  }
+
+  /**
+   * Get the exact body length (without check characters) for an alphabet
+   * and configuration
+   */
+  private static getExpectedLength(
+    alphabet: string,
+    config: SparkIdConfig
+  ): number {
+    return (
+      SecureId.getHeaderLength(alphabet, config) +
+      SecureId.getRandomLength(alphabet, config)
+    );
+  }
+
+  /**
+   * Length of the timestamp and machine ID slots
+   */
+  private static getHeaderLength(
+    alphabet: string,
+    config: SparkIdConfig
+  ): number {
+    const timestampLength = config.timestamp ? getTimestampLength(alphabet) : 0;
+    return timestampLength + getMachineIdLength(alphabet, config);
+  }
+
+  /**
+   * Number of random characters in the body. A fixed `length` covers the
+   * whole body, so the random part fills what the other fields leave.
+   */
+  private static getRandomLength(
+    alphabet: string,
+    config: SparkIdConfig
+  ): number {
+    if (config.length === undefined) {
+      const bytesLength = Math.ceil((config.entropyBits ?? 72) / 8);
+      return getEncodedLength(bytesLength, alphabet.length);
     }
 
-    return result;
+    const randomLength =
+      config.length -
+      SecureId.getHeaderLength(alphabet, config) -
+      getChecksumLength(alphabet, config);
+
+    if (!Number.isInteger(config.length) || randomLength < 1) {
+      throw new SparkIdError(
+        `Invalid length: ${config.length}. Length must be an integer that leaves room for at least one random character.`,
+        'INVALID_LENGTH'
+      );
+    }
+
+    return randomLength;
+  }
+
+  /**
+   * Detect which registered alphabets (including the legacy default) an
+   * existing ID could have been minted with. Useful when migrating IDs
+   * created before the default alphabet was corrected.
+   */
+  static detectAlphabet(
+    idString: string,
+    config?: Partial<SparkIdConfig>
+  ): string[] {
+    if (typeof idString !== 'string') return [];
+
+    const resolved = SecureId.resolveConfig(config);
+    const separator = resolved.separator ?? '_';
+    const index = idString.lastIndexOf(separator);
+    const rawId =
+      index < 0 ? idString : idString.slice(index + separator.length);
+
+    return getDetectableAlphabets()
+      .filter(
+        ([, alphabet]) =>
+          rawId.length === SecureId.getExpectedLength(alphabet, resolved) &&
+          isInAlphabet(rawId, alphabet)
+      )
+      .map(([name]) => name);
   }
 
   toString(): string {
     return this.full;
   }
 
+  /**
+   * Check whether another ID is the same as this one, ignoring case where
+   * the prefix or alphabet is case-insensitive
+   */
   equals(other: SecureId | string): boolean {
     const otherId = typeof other === 'string' ? other : other.full;
-    return this.full === otherId;
+    return SecureId.compare(this.full, otherId, this.config) === 0;
+  }
+
+  /**
+   * Bring an ID into its canonical form: prefix and case-insensitive bodies
+   * in one fixed case (`lower` if configured, otherwise `upper`), lenient
+   * Crockford spellings resolved. Throws `InvalidIdError` for invalid IDs.
+   *
+   * @example
+   * ```typescript
+   * SecureId.normalize('usr_ybndrfg8ejkmcpq') // 'USR_YBNDRFG8EJKMCPQ'
+   * ```
+   */
+  static normalize(idString: string, config?: Partial<SparkIdConfig>): string {
+    return SecureId.parse(idString, config, { canonical: true }).full;
+  }
+
+  /**
+   * Compare two IDs by their canonical forms, for sorting and
+   * deduplication. Strings that are not valid IDs compare as written.
+   */
+  static compare(
+    a: string,
+    b: string,
+    config?: Partial<SparkIdConfig>
+  ): number {
+    const left = SecureId.toComparable(a, config);
+    const right = SecureId.toComparable(b, config);
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  private static toComparable(
+    idString: string,
+    config?: Partial<SparkIdConfig>
+  ): string {
+    try {
+      return SecureId.normalize(idString, config);
+    } catch (error) {
+      if (error instanceof InvalidConfigError) throw error;
+      return idString;
+    }
   }
 
   /**
-   * Get the entropy bits of this ID
+   * Get the entropy bits of this ID: the random bytes, or the random
+   * characters of a fixed-length body
    */
   getEntropyBits(): number {
-    return SecureId.BYTES_LENGTH * 8;
+    return SecureId.countEntropyBits(this.config);
+  }
+
+  /**
+   * Get the entropy bits of IDs generated with a configuration
+   */
+  static getEntropyBits(config?: Partial<SparkIdConfig>): number {
+    return SecureId.countEntropyBits(SecureId.resolveValidConfig(config));
+  }
+
+  private static countEntropyBits(config: SparkIdConfig): number {
+    if (config.length === undefined) {
+      return Math.ceil((config.entropyBits ?? 72) / 8) * 8;
+    }
+
+    const alphabet = resolveAlphabet(config);
+    return Math.floor(
+      SecureId.getRandomLength(alphabet, config) * Math.log2(alphabet.length)
+    );
+  }
+
+  /**
+   * Get the metadata of this ID: entropy, alphabet, embedded creation time
+   * and machine ID, and the effective config
+   */
+  getMetadata(): SparkIdMetadata {
+    // Random sources are functions, which JSON cannot carry
+    const config = { ...this.config };
+    delete config.random;
+    const { timestamp, machineId } = SecureId.withMetadata(
+      { id: this.id, full: this.full },
+      this.config
+    );
+
+    return {
+      entropyBits: this.getEntropyBits(),
+      alphabet: resolveAlphabet(this.config),
+      ...(timestamp && { timestamp: timestamp.toISOString() }),
+      ...(machineId !== undefined && { machineId }),
+      config,
+    };
   }
 
   /**
@@ -340,24 +1148,207 @@ export class SecureId {
   }
 
   /**
-   * Configure global settings
+   * Create an isolated generator bound to its own configuration (on top of
+   * the defaults, ignoring `configure()`). The generator and its config are
+   * frozen; per-call config still takes precedence.
+   */
+  static createGenerator(
+    config: Partial<SparkIdConfig> = {}
+  ): SparkIdGenerator {
+    const resolved: SparkIdConfig = Object.freeze({
+      ...DEFAULT_CONFIG,
+      ...config,
+    });
+    assertValidConfig(resolved);
+
+    const run = <T>(fn: () => T): T => {
+      const previous = SecureId.activeConfig;
+      SecureId.activeConfig = resolved;
+      try {
+        return fn();
+      } finally {
+        SecureId.activeConfig = previous;
+      }
+    };
+
+    return Object.freeze({
+      config: resolved,
+      generate: (prefix?: string, local?: Partial<SparkIdConfig>) =>
+        run(() => SecureId.generate(prefix, local)),
+      create: (prefix?: string, local?: Partial<SparkIdConfig>) =>
+        run(() => SecureId.create(prefix, local)),
+      parse: (id: string, local?: Partial<SparkIdConfig>) =>
+        run(() => SecureId.parse(id, local)),
+      validate: (id: string, local?: Partial<SparkIdConfig>) =>
+        run(() => validateId(id, local)),
+      isValid: (id: string, local?: Partial<SparkIdConfig>) =>
+        run(() => SecureId.isValid(id, local)),
+    });
+  }
+
+  /**
+   * Configure global settings (replaces the default generator)
    */
   static configure(config: Partial<SparkIdConfig>): void {
-    SecureId.globalConfig = { ...SecureId.globalConfig, ...config };
+    SecureId.defaultGenerator = SecureId.createGenerator({
+      ...SecureId.defaultGenerator.config,
+      ...config,
+    });
   }
 
   /**
    * Get current global configuration
    */
   static getConfig(): SparkIdConfig {
-    return { ...SecureId.globalConfig };
+    return { ...SecureId.defaultGenerator.config };
   }
 
   /**
    * Reset configuration to defaults
    */
   static resetConfig(): void {
-    SecureId.globalConfig = { ...DEFAULT_CONFIG };
+    SecureId.defaultGenerator = SecureId.createGenerator();
+  }
+
+  /**
+   * Get the configuration the static API resolves against: the running
+   * generator's, or the default generator's
+   */
+  private static getBaseConfig(): SparkIdConfig {
+    return SecureId.activeConfig ?? SecureId.defaultGenerator.config;
+  }
+
+  /**
+   * Register a known prefix, optionally with its own configuration.
+   * IDs with this prefix are generated and parsed with it, on top of the
+   * global configuration; per-call config still takes precedence.
+   */
+  static registerPrefix(
+    prefix: string,
+    config: Partial<SparkIdConfig> = {}
+  ): void {
+    // Fail fast on an unusable configuration
+    assertValidPrefixConfig(config);
+    SecureId.resolveValidConfig(config);
+
+    if (!SecureId.isValidPrefix(prefix, config)) {
+      throw new InvalidPrefixError(prefix);
+    }
+
+    SecureId.prefixRegistry.set(prefix.toUpperCase(), { ...config });
+  }
+
+  /**
+   * Remove a registered prefix
+   */
+  static unregisterPrefix(prefix: string): boolean {
+    return SecureId.prefixRegistry.delete(prefix.toUpperCase());
+  }
+
+  /**
+   * Get the configuration of a registered prefix (case-insensitive)
+   */
+  static getPrefixConfig(prefix: string): Partial<SparkIdConfig> | undefined {
+    const config = SecureId.prefixRegistry.get(prefix.toUpperCase());
+    return config && { ...config };
+  }
+
+  /**
+   * List the registered prefixes
+   */
+  static getRegisteredPrefixes(): string[] {
+    return [...SecureId.prefixRegistry.keys()];
+  }
+
+  /**
+   * Remove every registered prefix
+   */
+  static clearPrefixes(): void {
+    SecureId.prefixRegistry.clear();
+  }
+
+  /**
+   * Layer a registered prefix's configuration under the per-call config
+   */
+  private static withPrefixConfig(
+    prefix: string | undefined,
+    config?: Partial<SparkIdConfig>
+  ): Partial<SparkIdConfig> | undefined {
+    const prefixConfig =
+      prefix === undefined
+        ? undefined
+        : SecureId.prefixRegistry.get(prefix.toUpperCase());
+    return prefixConfig ? { ...prefixConfig, ...config } : config;
+  }
+
+  /**
+   * Get the effective config for an ID with a given prefix: the resolved
+   * call config, with a registered prefix's config layered under the call
+   * config
+   */
+  private static resolvePrefixConfig(
+    prefix: string | undefined,
+    resolved: SparkIdConfig,
+    config?: Partial<SparkIdConfig>
+  ): SparkIdConfig {
+    const prefixConfig =
+      prefix === undefined
+        ? undefined
+        : SecureId.prefixRegistry.get(prefix.toUpperCase());
+    return prefixConfig
+      ? SecureId.resolveConfig({ ...prefixConfig, ...config })
+      : resolved;
+  }
+
+  /**
+   * Check a configuration, resolved against the global (or running
+   * generator's) configuration, and return the effective configuration.
+   * Throws an `InvalidConfigError` listing every problem.
+   */
+  static validateConfig(
+    config?: Partial<SparkIdConfig>
+  ): Readonly<SparkIdConfig> {
+    return SecureId.resolveValidConfig(config);
+  }
+
+  /**
+   * Get the effective configuration, throwing if it is not valid
+   */
+  private static resolveValidConfig(
+    config?: Partial<SparkIdConfig>
+  ): SparkIdConfig {
+    const resolved = SecureId.resolveConfig(config);
+    assertValidConfig(resolved);
+    return resolved;
+  }
+
+  /**
+   * Get the effective configuration (local, then generator, then defaults)
+   */
+  private static resolveConfig(
+    localConfig?: Partial<SparkIdConfig>
+  ): SparkIdConfig {
+    const base = SecureId.getBaseConfig();
+    const resolved: SparkIdConfig = {};
+    const set = (key: keyof SparkIdConfig) => {
+      const value = localConfig?.[key] ?? base[key] ?? DEFAULT_CONFIG[key];
+      if (value !== undefined) {
+        (resolved as Record<string, unknown>)[key] = value;
+      }
+    };
+
+    CONFIG_KEYS.forEach(set);
+
+    // Fields outside SparkIdConfig are passed through for validation
+    for (const source of [base, localConfig]) {
+      for (const key in source) {
+        if (!CONFIG_KEYS.has(key as keyof SparkIdConfig)) {
+          set(key as keyof SparkIdConfig);
+        }
+      }
+    }
+
+    return resolved;
   }
 
   /**
@@ -368,7 +1359,7 @@ export class SecureId {
     localConfig?: Partial<SparkIdConfig>
   ): SparkIdConfig[K] {
     return (
-      localConfig?.[key] ?? SecureId.globalConfig[key] ?? DEFAULT_CONFIG[key]
+      localConfig?.[key] ?? SecureId.getBaseConfig()[key] ?? DEFAULT_CONFIG[key]
     );
   }
 
@@ -388,41 +1379,36 @@ export class SecureId {
   }
 
   /**
-   * Validate this ID and return detailed result
+   * Validate this ID against its own config and return detailed result
    */
   validate(): SparkIdValidationResult {
-    try {
-      const isValid = SecureId.isValid(this.full);
-      return {
-        isValid,
-        error: isValid ? undefined : 'Invalid ID format',
-        code: isValid ? undefined : 'INVALID_FORMAT',
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        code: 'VALIDATION_ERROR',
-      };
-    }
+    return validateId(this.full, this.config);
   }
 
   /**
-   * Create a new ID with the same prefix
+   * Create a new ID with the same prefix and config
    */
   generateSimilar(): SecureId {
-    return new SecureId(undefined, this.prefix);
+    return new SecureId(undefined, this.prefix, this.config);
   }
 
   /**
-   * Convert to JSON representation
+   * Convert to JSON representation. Pass `{ metadata: true }` to include
+   * the ID's metadata (`JSON.stringify` never does).
    */
-  toJSON(): { id: string; prefix?: string; full: string } {
-    return {
+  toJSON(options?: { metadata?: boolean }): SparkIdJSON {
+    const json: SparkIdJSON = {
       id: this.id,
       prefix: this.prefix,
       full: this.full,
     };
+
+    // JSON.stringify passes the property key, not options
+    if (typeof options === 'object' && options?.metadata) {
+      json.metadata = this.getMetadata();
+    }
+
+    return json;
   }
 }
 
@@ -439,8 +1425,19 @@ export const isValidId = (
   id: string,
   config?: Partial<SparkIdConfig>
 ): boolean => SecureId.isValid(id, config);
-export const parseId = (id: string, config?: Partial<SparkIdConfig>) =>
-  SecureId.parse(id, config);
+export const detectAlphabet = (
+  id: string,
+  config?: Partial<SparkIdConfig>
+): string[] => SecureId.detectAlphabet(id, config);
+export const parseId = (
+  id: string,
+  config?: Partial<SparkIdConfig>,
+  options?: SparkIdParseOptions
+): ParsedId => SecureId.parse(id, config, options);
+export const normalizeId = (
+  id: string,
+  config?: Partial<SparkIdConfig>
+): string => SecureId.normalize(id, config);
 
 // Enhanced convenience functions with better error handling
 export const generateIdSafe = (
@@ -461,22 +1458,7 @@ export const generateIdSafe = (
 export const validateId = (
   id: string,
   config?: Partial<SparkIdConfig>
-): SparkIdValidationResult => {
-  try {
-    const isValid = SecureId.isValid(id, config);
-    return {
-      isValid,
-      error: isValid ? undefined : 'Invalid ID format',
-      code: isValid ? undefined : 'INVALID_FORMAT',
-    };
-  } catch (error) {
-    return {
-      isValid: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      code: 'VALIDATION_ERROR',
-    };
-  }
-};
+): SparkIdValidationResult => SecureId.validate(id, config);
 
 export const generateMultiple = (
   count: number,
@@ -493,6 +1475,18 @@ export const generateMultiple = (
   return Array.from({ length: count }, () => SecureId.generate(prefix, config));
 };
 
+export const generateBatch = (
+  count?: number,
+  prefix?: string,
+  config?: Partial<SparkIdConfig>
+): IterableIterator<string> => SecureId.generateBatch(count, prefix, config);
+
+export const fillIds = (
+  target: string[],
+  prefix?: string,
+  config?: Partial<SparkIdConfig>
+): string[] => SecureId.fillIds(target, prefix, config);
+
 export const generateUnique = (
   count: number,
   prefix?: string,
@@ -517,7 +1511,15 @@ export const generateUnique = (
   return ids;
 };
 
-// Global configuration functions
+export const validateConfig = (
+  config?: Partial<SparkIdConfig>
+): Readonly<SparkIdConfig> => SecureId.validateConfig(config);
+
+export const createGenerator = (
+  config?: Partial<SparkIdConfig>
+): SparkIdGenerator => SecureId.createGenerator(config);
+
+// Global configuration functions (wrappers over the default generator)
 export const configure = (config: Partial<SparkIdConfig>): void => {
   SecureId.configure(config);
 };
@@ -529,3 +1531,22 @@ export const getConfig = (): SparkIdConfig => {
 export const resetConfig = (): void => {
   SecureId.resetConfig();
 };
+
+export const registerPrefix = (
+  prefix: string,
+  config?: Partial<SparkIdConfig>
+): void => {
+  SecureId.registerPrefix(prefix, config);
+};
+
+export const unregisterPrefix = (prefix: string): boolean => {
+  return SecureId.unregisterPrefix(prefix);
+};
+
+export const getRegisteredPrefixes = (): string[] => {
+  return SecureId.getRegisteredPrefixes();
+};
+
+export const clearPrefixes = (): void => {
+  SecureId.clearPrefixes();
+};
@@ -0,0 +1,53 @@
+import { appendFile, readFile } from 'fs/promises';
+import type { SparkIdStore } from '../types';
+
+/**
+ * File-backed ID store
+ *
+ * Reserved IDs are appended to a newline-delimited file, which is read once
+ * on first use. Reservations are atomic within one process only; use a
+ * database-backed store when several processes issue IDs.
+ */
+
+/**
+ * Create a store that records reserved IDs in a file, created on the first
+ * reservation if it does not exist
+ *
+ * @example
+ * ```typescript
+ * const store = createFileStore('./data/issued-ids.txt')
+ * const id = await new UniqueIdGenerator({ store, prefix: 'INV' }).generate()
+ * ```
+ */
+export function createFileStore(path: string): SparkIdStore {
+  let loading: Promise<Set<string>> | undefined;
+  const load = () => (loading ??= readIds(path));
+
+  return {
+    exists: async (id) => (await load()).has(id),
+    reserve: async (id) => {
+      const taken = await load();
+      if (taken.has(id)) return false;
+
+      // Claim the ID before writing so concurrent calls cannot both win
+      taken.add(id);
+      try {
+        await appendFile(path, `${id}\n`);
+      } catch (error) {
+        taken.delete(id);
+        throw error;
+      }
+      return true;
+    },
+  };
+}
+
+async function readIds(path: string): Promise<Set<string>> {
+  try {
+    const content = await readFile(path, 'utf8');
+    return new Set(content.split('\n').filter(Boolean));
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return new Set();
+    throw error;
+  }
+}
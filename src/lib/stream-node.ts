@@ -0,0 +1,48 @@
+import { Readable } from 'stream';
+import type { SparkIdStreamOptions } from '../types';
+import { SecureId } from './secure-id.js';
+
+/**
+ * Node stream of IDs
+ *
+ * `read()` pushes IDs until the buffer is full, so the stream only generates
+ * as fast as it is consumed. `mode: 'newline'` emits newline-delimited text
+ * for piping into files, bulk loaders and CLIs.
+ */
+
+export interface SparkIdReadableOptions extends SparkIdStreamOptions {
+  mode?: 'object' | 'newline';
+  highWaterMark?: number;
+}
+
+/**
+ * Generate IDs as a Node `Readable`. Omit `count` for unbounded generation;
+ * aborting the signal destroys the stream with an `AbortError`.
+ *
+ * @example
+ * ```typescript
+ * generateStream({ prefix: 'ROW', count: 1_000_000, mode: 'newline' })
+ *   .pipe(fs.createWriteStream('ids.txt'))
+ * ```
+ */
+export function generateStream(options: SparkIdReadableOptions = {}): Readable {
+  const { prefix, count, config, signal, highWaterMark } = options;
+  const objectMode = (options.mode ?? 'object') === 'object';
+  const ids = SecureId.generateBatch(count, prefix, config);
+
+  return new Readable({
+    objectMode,
+    highWaterMark,
+    signal,
+    read() {
+      for (;;) {
+        const next = ids.next();
+        if (next.done) {
+          this.push(null);
+          return;
+        }
+        if (!this.push(objectMode ? next.value : `${next.value}\n`)) return;
+      }
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import type { SparkIdStreamOptions } from '../types';
+import { SparkIdError } from './errors.js';
+import { SecureId } from './secure-id.js';
+
+/**
+ * Asynchronous ID generation
+ *
+ * Pull-based, so consumers control the pace (backpressure). IDs come from the
+ * pooled batch generator; the event loop is released every few thousand IDs
+ * so unbounded generation never starves timers or I/O.
+ */
+
+// IDs yielded between macrotask breaks
+const YIELD_INTERVAL = 4096;
+
+/**
+ * Generate IDs as an async iterable. Omit `count` for unbounded generation;
+ * aborting the signal rejects the pending iteration with the abort reason.
+ *
+ * @example
+ * ```typescript
+ * for await (const id of generateAsyncIterable({ prefix: 'JOB', signal })) {
+ *   await queue.send(id)
+ * }
+ * ```
+ */
+export function generateAsyncIterable(
+  options: SparkIdStreamOptions = {}
+): AsyncIterableIterator<string> {
+  const { prefix, count, config, signal } = options;
+  const ids = SecureId.generateBatch(count, prefix, config);
+
+  return (async function* () {
+    let sinceYield = 0;
+
+    for (const id of ids) {
+      throwIfAborted(signal);
+      yield id;
+
+      if (++sinceYield === YIELD_INTERVAL) {
+        sinceYield = 0;
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+  })();
+}
+
+/**
+ * Throw the abort reason if the signal has been aborted
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw (
+      signal.reason ?? new SparkIdError('ID generation was aborted', 'ABORTED')
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import type { SparkIdConfig } from '../types';
+import {
+  decodeInteger,
+  encodeInteger,
+  getDigitCount,
+  getSortedDigits,
+} from './encoding.js';
+
+/**
+ * Time-ordered (K-sortable) ID support
+ *
+ * In timestamp mode the ID body starts with a 48-bit millisecond timestamp
+ * followed by a monotonic counter, both written with the alphabet's
+ * characters in code point order, after the case setting is applied. IDs
+ * therefore sort lexically in creation order, including IDs minted within
+ * the same millisecond.
+ *
+ * Layout: [timestamp][counter][random]
+ */
+
+export const TIMESTAMP_BITS = 48;
+export const COUNTER_LENGTH = 2;
+
+// Process-wide clock state shared by every generator
+let lastTime = 0;
+let lastCounter = 0;
+
+/**
+ * Get the next (time, counter) pair. Time never goes backwards; when the
+ * counter overflows within one millisecond the time is advanced by one.
+ */
+export function nextTick(maxCounter: number): {
+  time: number;
+  counter: number;
+} {
+  const now = Date.now();
+
+  if (now > lastTime) {
+    lastTime = now;
+    lastCounter = 0;
+  } else if (lastCounter < maxCounter) {
+    lastCounter++;
+  } else {
+    lastTime++;
+    lastCounter = 0;
+  }
+
+  return { time: lastTime, counter: lastCounter };
+}
+
+/**
+ * Number of leading characters used by the timestamp and counter
+ */
+export function getTimestampLength(alphabet: string): number {
+  const radix = getSortedDigits(alphabet).length;
+  return getDigitCount(TIMESTAMP_BITS, radix) + COUNTER_LENGTH;
+}
+
+/**
+ * Encode the timestamp and counter fields for a new ID
+ */
+export function encodeTimestamp(
+  alphabet: string,
+  config: SparkIdConfig
+): string {
+  const digits = getSortedDigits(alphabet, config.case);
+  const timeLength = getDigitCount(TIMESTAMP_BITS, digits.length);
+  const { time, counter } = nextTick(
+    Math.pow(digits.length, COUNTER_LENGTH) - 1
+  );
+
+  return (
+    encodeInteger(time, timeLength, digits) +
+    encodeInteger(counter, COUNTER_LENGTH, digits)
+  );
+}
+
+/**
+ * Decode the embedded creation time from the start of an ID body
+ */
+export function decodeTimestamp(
+  rawId: string,
+  alphabet: string,
+  config: SparkIdConfig
+): Date | undefined {
+  const digits = getSortedDigits(alphabet, config.case);
+  const timeLength = getDigitCount(TIMESTAMP_BITS, digits.length);
+  const time = decodeInteger(rawId.slice(0, timeLength), digits);
+
+  return time === undefined ? undefined : new Date(time);
+}
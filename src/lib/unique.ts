@@ -0,0 +1,132 @@
+import type {
+  SparkIdConfig,
+  SparkIdStore,
+  SparkIdUniqueMetrics,
+  SparkIdUniqueOptions,
+} from '../types';
+import { SparkIdError } from './errors.js';
+import { SecureId } from './secure-id.js';
+
+/**
+ * Store-backed uniqueness
+ *
+ * Random IDs are unique with overwhelming probability, but only a record of
+ * the IDs already issued can guarantee it. `UniqueIdGenerator` checks each
+ * candidate against a store and reserves it before returning, retrying on
+ * collision within a fixed budget. Stores are async so they can sit in
+ * front of a database; `reserve` must be atomic for concurrent writers.
+ */
+
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * Generate IDs that are not yet in a store
+ *
+ * @example
+ * ```typescript
+ * const users = new UniqueIdGenerator({
+ *   prefix: 'USER',
+ *   store: {
+ *     exists: async (id) => (await db.users.count({ id })) > 0,
+ *     reserve: async (id) => db.ids.insertIfAbsent(id),
+ *   },
+ * })
+ * const id = await users.generate()
+ * ```
+ */
+export class UniqueIdGenerator {
+  private readonly store: SparkIdStore;
+  private readonly prefix?: string;
+  private readonly config?: Partial<SparkIdConfig>;
+  private readonly maxRetries: number;
+  private metrics: SparkIdUniqueMetrics = UniqueIdGenerator.emptyMetrics();
+
+  constructor(options: SparkIdUniqueOptions) {
+    const { store, prefix, config } = options;
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    if (
+      typeof store?.exists !== 'function' ||
+      typeof store?.reserve !== 'function'
+    ) {
+      throw new SparkIdError(
+        'A store with exists() and reserve() is required',
+        'INVALID_STORE'
+      );
+    }
+
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new SparkIdError(
+        `Max retries must be a non-negative integer. Got ${maxRetries}.`,
+        'INVALID_COUNT'
+      );
+    }
+
+    // Fail on a bad prefix or config now rather than on first use
+    SecureId.generateBatch(0, prefix, config);
+
+    this.store = store;
+    this.prefix = prefix;
+    this.config = config;
+    this.maxRetries = maxRetries;
+  }
+
+  /**
+   * Generate and reserve an ID that the store has not seen. Throws a
+   * `SparkIdError` with code `GENERATION_FAILED` when every attempt collides.
+   */
+  async generate(): Promise<string> {
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const id = SecureId.generate(this.prefix, this.config);
+      this.metrics.attempts++;
+
+      if (!(await this.store.exists(id)) && (await this.store.reserve(id))) {
+        this.metrics.generated++;
+        return id;
+      }
+
+      this.metrics.collisions++;
+    }
+
+    this.metrics.failures++;
+    throw new SparkIdError(
+      `Failed to generate a unique ID after ${this.maxRetries + 1} attempts`,
+      'GENERATION_FAILED'
+    );
+  }
+
+  /**
+   * Get the counters since creation (or the last reset)
+   */
+  getMetrics(): SparkIdUniqueMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Reset the counters
+   */
+  resetMetrics(): void {
+    this.metrics = UniqueIdGenerator.emptyMetrics();
+  }
+
+  private static emptyMetrics(): SparkIdUniqueMetrics {
+    return { generated: 0, attempts: 0, collisions: 0, failures: 0 };
+  }
+}
+
+/**
+ * Create a store that keeps IDs in memory, optionally seeded with IDs that
+ * are already taken. Suitable for tests and single-process use.
+ */
+export function createMemoryStore(ids: Iterable<string> = []): SparkIdStore {
+  const taken = new Set(ids);
+
+  return {
+    exists: async (id) => taken.has(id),
+    reserve: async (id) => {
+      if (taken.has(id)) return false;
+      taken.add(id);
+      return true;
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import * as v from 'valibot';
+import type { SparkId, SparkIdSchemaOptions } from '../types';
+import { createIdCheck } from './schema.js';
+
+/**
+ * Build a Valibot schema for IDs with a prefix (any prefix, or none, when
+ * omitted). Invalid IDs fail with the validation code as the issue message;
+ * valid IDs are typed as `SparkId<P>`.
+ *
+ * @example
+ * ```typescript
+ * const Body = v.object({ userId: sparkIdSchema({ prefix: 'USER' }) })
+ * v.parse(Body, input).userId // SparkId<'USER'>
+ * ```
+ */
+export function sparkIdSchema<P extends string = string>(
+  options: SparkIdSchemaOptions<P> = {}
+) {
+  const check = createIdCheck(options);
+
+  return v.pipe(
+    v.string(),
+    v.rawCheck(({ dataset, addIssue }) => {
+      const code = dataset.typed ? check(dataset.value) : undefined;
+      if (code) addIssue({ message: code });
+    }),
+    v.transform((value) => value as SparkId<P>)
+  );
+}
@@ -0,0 +1,29 @@
+import { string } from 'yup';
+import type { SparkId, SparkIdSchemaOptions } from '../types';
+import { createIdCheck } from './schema.js';
+
+/**
+ * Build a Yup schema for IDs with a prefix (any prefix, or none, when
+ * omitted). Invalid IDs fail with the validation code as the error message;
+ * valid IDs are typed as `SparkId<P>`. Like other Yup schemas it is
+ * optional until `.required()` is added.
+ *
+ * @example
+ * ```typescript
+ * const body = object({ userId: sparkIdSchema({ prefix: 'USER' }).required() })
+ * ```
+ */
+export function sparkIdSchema<P extends string = string>(
+  options: SparkIdSchemaOptions<P> = {}
+) {
+  const check = createIdCheck(options);
+
+  return string<SparkId<P>>().test({
+    name: 'spark-id',
+    skipAbsent: true,
+    test(value, context) {
+      const code = value === undefined ? undefined : check(value);
+      return code ? context.createError({ message: code }) : true;
+    },
+  });
+}
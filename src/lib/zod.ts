@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import type { SparkId, SparkIdSchemaOptions } from '../types';
+import { createIdCheck } from './schema.js';
+
+/**
+ * Build a Zod schema for IDs with a prefix (any prefix, or none, when
+ * omitted). Invalid IDs fail with the validation code as the issue message;
+ * valid IDs are typed as `SparkId<P>`.
+ *
+ * @example
+ * ```typescript
+ * const body = z.object({ userId: sparkIdSchema({ prefix: 'USER' }) })
+ * body.parse(input).userId // SparkId<'USER'>
+ * ```
+ */
+export function sparkIdSchema<P extends string = string>(
+  options: SparkIdSchemaOptions<P> = {}
+) {
+  const check = createIdCheck(options);
+
+  return z.string().transform((value, ctx) => {
+    const code = check(value);
+    if (code) {
+      ctx.addIssue({ code: 'custom', message: code, input: value });
+      return z.NEVER;
+    }
+    return value as SparkId<P>;
+  });
+}
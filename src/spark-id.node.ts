@@ -0,0 +1,5 @@
+// Node entry: draw random bytes from Node's crypto module
+import './lib/random-node.js';
+
+export * from './spark-id.js';
+export { default } from './spark-id.js';
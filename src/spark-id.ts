@@ -1,5 +1,13 @@
 // Re-export everything from the main module
 export * from './lib/secure-id.js';
+export * from './lib/alphabets.js';
+export * from './lib/id-type.js';
+export * from './lib/collision.js';
+export * from './lib/unique.js';
+export * from './lib/pattern.js';
+export * from './lib/scan.js';
+export { createSeededGenerator } from './lib/random.js';
+export { generateAsyncIterable } from './lib/stream.js';
 
 // Add the sparkId alias for better naming consistency
 import { generateId } from './lib/secure-id.js';
@@ -0,0 +1,5 @@
+// Node store entry: draw random bytes from Node's crypto module
+import './lib/random-node.js';
+
+export { createFileStore } from './lib/store-node.js';
+export { UniqueIdGenerator, createMemoryStore } from './lib/unique.js';
@@ -0,0 +1,6 @@
+// Node stream entry: draw random bytes from Node's crypto module
+import './lib/random-node.js';
+
+export { generateStream } from './lib/stream-node.js';
+export type { SparkIdReadableOptions } from './lib/stream-node.js';
+export { generateAsyncIterable } from './lib/stream.js';
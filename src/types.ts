@@ -2,38 +2,211 @@
  * Type definitions for Spark-ID
  */
 
+import type { SecureId } from './lib/secure-id';
+
 export interface ParsedId {
   prefix?: string;
+  prefixPath?: string[]; // Prefix segments, e.g. ['ORG', 'TEAM'] for ORG_TEAM
   id: string;
   full: string;
+  timestamp?: Date; // Creation time, when parsed in timestamp mode
+  machineId?: number; // Node that minted the ID, when a slot is configured
 }
 
 export interface SparkIdConfig {
   // Core generation
   alphabet?: string;
   entropyBits?: number;
-  length?: number;
+  length?: number; // Exact body length; overrides entropyBits
+  random?: SparkIdRandomSource; // Source of random bytes; defaults to the CSPRNG
 
   // Formatting
   maxPrefixLength?: number;
   separator?: string;
   case?: 'upper' | 'lower' | 'mixed';
+  strictPrefixes?: boolean; // Only parse IDs with a registered prefix
 
   // Advanced
-  encoding?: 'base32' | 'base64' | 'hex' | 'custom';
-  timestamp?: boolean;
-  machineId?: string | number;
+  encoding?:
+    | 'base32'
+    | 'base64'
+    | 'hex'
+    | 'base58'
+    | 'base62'
+    | 'crockford'
+    | 'custom';
+  checksum?: 'damm' | 'luhn' | 'mod37'; // Append a check character
+  timestamp?: boolean; // Prefix the body with a sortable ms timestamp
+  machineId?: string | number; // Worker/node ID written into the body
+  machineIdBits?: number; // Declared width of the machine ID slot
 }
 
+// Returns `size` random bytes
+export type SparkIdRandomSource = (size: number) => Uint8Array;
+
 export interface SparkIdOptions {
   prefix?: string;
   config?: Partial<SparkIdConfig>;
 }
 
-export interface SparkIdValidationResult {
+export interface SparkIdStreamOptions {
+  prefix?: string;
+  count?: number; // Unbounded when omitted
+  config?: Partial<SparkIdConfig>;
+  signal?: AbortSignal;
+}
+
+// Record of IDs already in use, e.g. a database table
+export interface SparkIdStore {
+  exists(id: string): Promise<boolean>;
+  reserve(id: string): Promise<boolean>; // false if the ID was already taken
+}
+
+export interface SparkIdUniqueOptions {
+  store: SparkIdStore;
+  prefix?: string;
+  config?: Partial<SparkIdConfig>;
+  maxRetries?: number; // Retries after a collision (default 3)
+}
+
+export interface SparkIdUniqueMetrics {
+  generated: number; // IDs reserved
+  attempts: number; // Candidate IDs tried
+  collisions: number; // Candidates already taken
+  failures: number; // Calls that ran out of retries
+}
+
+export interface SparkIdCollisionOptions {
+  entropyBits?: number; // Random bits per ID; derived from config if omitted
+  config?: Partial<SparkIdConfig>;
+  count?: number; // Expected number of IDs
+  rate?: number; // IDs per second, instead of (or with) count
+  duration?: number; // Seconds of generation at that rate
+  threshold?: number; // Acceptable collision probability (default 1e-6)
+}
+
+export interface SparkIdCollisionRisk {
+  entropyBits: number;
+  count?: number; // Volume the probability applies to
+  probability?: number; // Chance of at least one collision among count IDs
+  threshold: number;
+  maxIds: number; // IDs that can be minted before reaching the threshold
+  secondsToThreshold?: number; // When a rate is given
+  requiredEntropyBits?: number; // Bits that keep count IDs within the threshold
+}
+
+export interface SparkIdConfigIssue {
+  path: string; // Config field, e.g. "separator"
+  message: string;
+  code: string;
+}
+
+export interface SparkIdParseOptions {
+  canonical?: boolean; // Return prefix and body in one fixed case, see SecureId.normalize
+}
+
+export interface SparkIdDiagnostics {
+  position?: number; // Index of the offending character in the ID
+  expectedLength?: number; // Body length (without prefix) the config requires
+  actualLength?: number;
+}
+
+export interface SparkIdValidationResult extends SparkIdDiagnostics {
   isValid: boolean;
   error?: string;
   code?: string;
+  suggestion?: string; // Canonical form, when the ID differs from it only in case
+}
+
+// Brand that keeps IDs of different types apart at compile time
+declare const idTypeBrand: unique symbol;
+
+// An ID string minted for a specific prefix, e.g. SparkId<'USER'>
+export type SparkId<P extends string = string> = `${P}${string}` & {
+  readonly [idTypeBrand]: P;
+};
+
+export interface ParsedSparkId<P extends string> extends ParsedId {
+  prefix: P;
+  full: SparkId<P>;
+}
+
+export interface SparkIdType<P extends string> {
+  readonly prefix: P;
+  readonly config?: Partial<SparkIdConfig>;
+  generate(): SparkId<P>;
+  create(): SecureId & { readonly prefix: P; readonly full: SparkId<P> };
+  isValid(value: unknown): value is SparkId<P>;
+  validate(value: string): SparkIdValidationResult;
+  parse(value: string): ParsedSparkId<P>;
+}
+
+export interface SparkIdPatternOptions {
+  prefixes?: string[]; // Prefixes to match; any valid prefix (or none) if omitted, none if empty
+  anchored?: boolean; // Match whole strings only (default: true)
+  flags?: string; // RegExp flags, for toRegExp
+  exactPrefixCase?: boolean; // Match the given prefixes only as written (default: either case)
+}
+
+export interface SparkIdScanOptions {
+  prefixes?: string[]; // Prefixes to look for; any valid prefix (or none) if omitted
+  config?: Partial<SparkIdConfig>;
+}
+
+export interface SparkIdScanMatch extends ParsedId {
+  text: string; // The ID as written
+  start: number; // Offset of the first character (UTF-16 code units)
+  end: number; // Offset after the last character
+}
+
+export interface SparkIdScanCandidate extends SparkIdDiagnostics {
+  text: string;
+  start: number;
+  end: number;
+  code: string; // Validation code, e.g. BAD_CHARACTER
+  error: string;
+}
+
+export interface SparkIdScanResult {
+  ids: SparkIdScanMatch[];
+  invalid: SparkIdScanCandidate[]; // Look like IDs but fail validation
+}
+
+export interface SparkIdSchemaOptions<P extends string = string> {
+  prefix?: P; // Required prefix, in the configured case; any (or none) if omitted
+  config?: Partial<SparkIdConfig>;
+}
+
+export interface SparkIdJsonSchema {
+  type: 'string';
+  pattern: string;
+}
+
+export interface SparkIdGenerator {
+  readonly config: Readonly<SparkIdConfig>;
+  generate(prefix?: string, config?: Partial<SparkIdConfig>): string;
+  create(prefix?: string, config?: Partial<SparkIdConfig>): SecureId;
+  parse(id: string, config?: Partial<SparkIdConfig>): ParsedId;
+  validate(
+    id: string,
+    config?: Partial<SparkIdConfig>
+  ): SparkIdValidationResult;
+  isValid(id: string, config?: Partial<SparkIdConfig>): boolean;
+}
+
+export interface SparkIdMetadata {
+  entropyBits: number; // Random bits in the body
+  alphabet: string;
+  timestamp?: string; // Creation time (ISO 8601), for time-ordered IDs
+  machineId?: number;
+  config: Omit<SparkIdConfig, 'random'>; // Effective config
+}
+
+export interface SparkIdJSON {
+  id: string;
+  prefix?: string;
+  full: string;
+  metadata?: SparkIdMetadata; // Only with { metadata: true }
 }
 
 export interface SparkIdStats {
@@ -45,19 +218,22 @@ export interface SparkIdStats {
 // Default configuration
 export const DEFAULT_CONFIG: SparkIdConfig = {
   // Core generation
-  alphabet: 'yvndrfg9ejkmcpqxwt2uwxsza345h769', // Z-Base32 (URL-safe, no similar chars)
+  alphabet: 'ybndrfg8ejkmcpqxot1uwisza345h769', // Z-Base32 (URL-safe, no similar chars)
   entropyBits: 72, // 9 bytes = 72 bits (good balance of security/size)
   length: undefined, // Let it be calculated from entropyBits
+  random: undefined, // crypto.randomBytes
 
   // Formatting
   maxPrefixLength: 20, // Reasonable limit for prefixes
   separator: '_', // Standard underscore separator
   case: 'upper', // Human-readable, consistent
+  strictPrefixes: false, // Accept any well-formed prefix
 
   // Advanced
   encoding: 'base32', // Z-Base32 encoding
   timestamp: false, // Keep IDs stateless by default
   machineId: undefined, // No machine ID by default
+  machineIdBits: undefined, // 10 bits (1024 nodes) when a machine ID is set
 };
 
 // Re-export types from the main module
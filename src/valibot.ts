@@ -0,0 +1,2 @@
+// Valibot entry: requires the optional valibot peer dependency
+export { sparkIdSchema } from './lib/valibot.js';
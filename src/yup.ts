@@ -0,0 +1,2 @@
+// Yup entry: requires the optional yup peer dependency
+export { sparkIdSchema } from './lib/yup.js';
@@ -0,0 +1,2 @@
+// Zod entry: requires the optional zod peer dependency
+export { sparkIdSchema } from './lib/zod.js';
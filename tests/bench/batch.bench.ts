@@ -0,0 +1,30 @@
+import { bench, describe } from 'vitest';
+import { fillIds, generateBatch, generateId } from '../../src/lib/secure-id';
+
+const COUNT = 10_000;
+
+describe(`Generate ${COUNT} IDs`, () => {
+  bench('generateId per ID', () => {
+    for (let i = 0; i < COUNT; i++) generateId('USER');
+  });
+
+  bench('generateBatch iterator', () => {
+    for (const id of generateBatch(COUNT, 'USER')) void id;
+  });
+
+  bench('fillIds preallocated', () => {
+    fillIds(new Array<string>(COUNT), 'USER');
+  });
+});
+
+describe(`Generate ${COUNT} fixed-length base62 IDs`, () => {
+  const config = { encoding: 'base62' as const, length: 16 };
+
+  bench('generateId per ID', () => {
+    for (let i = 0; i < COUNT; i++) generateId('USER', config);
+  });
+
+  bench('fillIds preallocated', () => {
+    fillIds(new Array<string>(COUNT), 'USER', config);
+  });
+});
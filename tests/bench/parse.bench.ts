@@ -0,0 +1,39 @@
+import { bench, describe } from 'vitest';
+import {
+  SecureId,
+  generateId,
+  isValidId,
+  parseId,
+  validateId,
+} from '../../src/lib/secure-id';
+
+const COUNT = 10_000;
+const id = generateId('USER');
+
+describe(`Read ${COUNT} IDs`, () => {
+  bench('isValidId', () => {
+    for (let i = 0; i < COUNT; i++) isValidId(id);
+  });
+
+  bench('parseId', () => {
+    for (let i = 0; i < COUNT; i++) parseId(id);
+  });
+
+  bench('validateId', () => {
+    for (let i = 0; i < COUNT; i++) validateId(id);
+  });
+});
+
+describe(`Read ${COUNT} IDs with a registered prefix config`, () => {
+  const config = { encoding: 'base62' as const, length: 16 };
+  SecureId.registerPrefix('ORD', config);
+  const orderId = generateId('ORD');
+
+  bench('isValidId', () => {
+    for (let i = 0; i < COUNT; i++) isValidId(orderId);
+  });
+
+  bench('parseId', () => {
+    for (let i = 0; i < COUNT; i++) parseId(orderId);
+  });
+});
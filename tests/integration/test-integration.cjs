@@ -88,7 +88,24 @@ async function testSparkIdEntry() {
   }
 }
 
-// Test 4: CLI functionality
+// Test 4: Node entry points (Node crypto instead of Web Crypto)
+console.log('📦 Testing Node entry points...');
+try {
+  const nodeEntry = require('../../dist/index.node.cjs');
+  const id = nodeEntry.generateId('NODE');
+  console.log('  ✅ index.node.cjs generateId():', id);
+  console.log('  ✅ isValidId():', nodeEntry.isValidId(id));
+
+  const sparkIdNode = require('../../dist/spark-id.node.cjs');
+  console.log('  ✅ spark-id.node.cjs sparkId():', sparkIdNode.sparkId('NODE'));
+
+  console.log('  ✅ Node entry points: PASSED\n');
+} catch (error) {
+  console.error('  ❌ Node entry points: FAILED', error.message);
+  process.exit(1);
+}
+
+// Test 5: CLI functionality
 console.log('📦 Testing CLI...');
 try {
   const cli = require('../../dist/cli.cjs');
@@ -99,11 +116,12 @@ try {
   process.exit(1);
 }
 
-// Test 5: Type definitions
+// Test 6: Type definitions
 console.log('📦 Testing TypeScript definitions...');
 try {
   const typeFiles = [
     '../../dist/index.d.ts',
+    '../../dist/index.node.d.ts',
     '../../dist/spark-id.d.ts',
     '../../dist/cli.d.ts',
   ];
@@ -123,7 +141,7 @@ try {
   process.exit(1);
 }
 
-// Test 6: Error handling
+// Test 7: Error handling
 console.log('📦 Testing error handling...');
 try {
   const sparkId = require('../../dist/index.cjs');
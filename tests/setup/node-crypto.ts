@@ -0,0 +1,2 @@
+// Run the suite against Node's crypto module, as the Node entry points do
+import '../../src/lib/random-node';
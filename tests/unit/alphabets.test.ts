@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  ALPHABETS,
+  LEGACY_ALPHABET,
+  getAlphabet,
+  getAlphabetProblems,
+  registerAlphabet,
+} from '../../src/lib/alphabets';
+import { InvalidConfigError } from '../../src/lib/errors';
+import {
+  SecureId,
+  SparkIdError,
+  configure,
+  detectAlphabet,
+  generateId,
+  isValidId,
+  parseId,
+  resetConfig,
+} from '../../src/lib/secure-id';
+import { DEFAULT_CONFIG } from '../../src/types';
+
+describe('Alphabet registry', () => {
+  afterEach(() => resetConfig());
+
+  it('should default to the true z-base-32 alphabet', () => {
+    expect(DEFAULT_CONFIG.alphabet).toBe(ALPHABETS['z-base-32']);
+    expect(new Set(DEFAULT_CONFIG.alphabet).size).toBe(32);
+  });
+
+  it('should ship valid presets', () => {
+    Object.values(ALPHABETS).forEach((alphabet) => {
+      expect(getAlphabetProblems(alphabet)).toEqual([]);
+      const id = generateId('USER', { alphabet });
+      expect(isValidId(id, { alphabet })).toBe(true);
+    });
+    expect(getAlphabet('crockford')).toBe(ALPHABETS.crockford);
+  });
+
+  it('should reject duplicate characters', () => {
+    expect(getAlphabetProblems(LEGACY_ALPHABET)).toEqual([
+      'contains duplicate characters: w, x, 9',
+    ]);
+    expect(() => generateId(undefined, { alphabet: LEGACY_ALPHABET })).toThrow(
+      SparkIdError
+    );
+  });
+
+  it('should reject case-folding collisions unless case is mixed', () => {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123AB';
+    expect(getAlphabetProblems(alphabet, 'upper')).toEqual([
+      'contains characters that collide when case is "upper": A, B',
+    ]);
+    expect(getAlphabetProblems(alphabet, 'mixed')).toEqual([]);
+    expect(() => generateId(undefined, { alphabet })).toThrow(/collide/);
+    expect(() =>
+      generateId(undefined, { alphabet, case: 'mixed' })
+    ).not.toThrow();
+  });
+
+  it('should reject characters that are not URL-safe', () => {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123/+';
+    expect(() => generateId(undefined, { alphabet })).toThrow(
+      /URL-safe: \/, \+/
+    );
+  });
+
+  it('should validate alphabets applied through configure', () => {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123aa';
+    expect(() => configure({ alphabet })).toThrow(/duplicate/);
+    expect(generateId()).toMatch(/^[a-z0-9]+$/i);
+  });
+
+  it('should read IDs minted with the legacy alphabet', () => {
+    const config = { alphabet: LEGACY_ALPHABET };
+    const id = 'USER_V2VVVVVVVVVVVVV';
+
+    expect(isValidId(id)).toBe(false);
+    expect(isValidId(id, config)).toBe(true);
+    expect(isValidId(id.toLowerCase(), config)).toBe(true);
+    expect(parseId(id, config)).toEqual({
+      prefix: 'USER',
+      prefixPath: ['USER'],
+      id: 'V2VVVVVVVVVVVVV',
+      full: id,
+    });
+  });
+
+  it('should not generate IDs with the legacy alphabet', () => {
+    const config = { alphabet: LEGACY_ALPHABET };
+
+    expect(() => generateId('USER', config)).toThrow(/only read existing IDs/);
+    expect(() => SecureId.toBytes('USER_V2VVVVVVVVVVVVV', config)).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_CONFIG' })
+    );
+    expect(() =>
+      isValidId('USER_V2VVVVVVVVVVVVV', { ...config, timestamp: true })
+    ).toThrow(InvalidConfigError);
+  });
+
+  it('should register custom alphabets', () => {
+    const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'.toLowerCase();
+    expect(() => registerAlphabet('bad', 'aab')).toThrow(SparkIdError);
+    registerAlphabet('custom-32', alphabet);
+    expect(getAlphabet('custom-32')).toBe(alphabet);
+  });
+
+  describe('detectAlphabet', () => {
+    it('should recognise IDs minted with the legacy alphabet', () => {
+      expect(detectAlphabet('USER_V9UVVVVVVVVVVVV')).toEqual([
+        'spark-id-legacy',
+      ]);
+    });
+
+    it('should recognise IDs minted with the current default', () => {
+      expect(detectAlphabet('USER_O8OOOOOOOOOOOOO')).toEqual(['z-base-32']);
+    });
+
+    it('should report every candidate for ambiguous IDs', () => {
+      expect(detectAlphabet('USER_AAAAAAAAAAAAAAA')).toEqual([
+        'z-base-32',
+        'rfc4648',
+        'crockford',
+        'custom-32',
+        'spark-id-legacy',
+      ]);
+    });
+
+    it('should split off the prefix at multi-character separators', () => {
+      expect(
+        detectAlphabet('USER::V9UVVVVVVVVVVVV', { separator: '::' })
+      ).toEqual(['spark-id-legacy']);
+      expect(detectAlphabet('V9UVVVVVVVVVVVV', { separator: '::' })).toEqual([
+        'spark-id-legacy',
+      ]);
+    });
+
+    it('should ignore IDs with the wrong length', () => {
+      expect(detectAlphabet('USER_AAAA')).toEqual([]);
+      expect(detectAlphabet(123 as any)).toEqual([]);
+    });
+  });
+});
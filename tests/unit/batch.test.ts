@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEntropyPool } from '../../src/lib/random';
+import {
+  InvalidPrefixError,
+  SparkIdError,
+  fillIds,
+  generateBatch,
+  isValidId,
+  parseId,
+} from '../../src/lib/secure-id';
+
+describe('Batch generation', () => {
+  it('should yield the requested number of valid, unique IDs', () => {
+    const ids = [...generateBatch(5000, 'USER')];
+
+    expect(ids).toHaveLength(5000);
+    expect(new Set(ids).size).toBe(5000);
+    ids.slice(0, 100).forEach((id) => expect(isValidId(id)).toBe(true));
+  });
+
+  it('should not be capped like generateMultiple', () => {
+    let count = 0;
+    for (const id of generateBatch(20_000)) {
+      expect(id).toHaveLength(15);
+      count++;
+    }
+    expect(count).toBe(20_000);
+  });
+
+  it('should iterate endlessly without a count', () => {
+    const iterator = generateBatch();
+    const first = iterator.next();
+    const second = iterator.next();
+
+    expect(first.done).toBe(false);
+    expect(second.value).not.toBe(first.value);
+  });
+
+  it('should fill a preallocated array', () => {
+    const target = new Array<string>(1000);
+    const result = fillIds(target, 'ORDER', { case: 'lower' });
+
+    expect(result).toBe(target);
+    expect(new Set(target).size).toBe(1000);
+    target
+      .slice(0, 50)
+      .forEach((id) => expect(id).toMatch(/^order_[a-z0-9]{15}$/));
+  });
+
+  it.each([
+    { encoding: 'hex' as const },
+    { encoding: 'base62' as const, length: 20 },
+    { checksum: 'damm' as const, timestamp: true },
+    { machineId: 3, separator: '-' },
+  ])('should honor the config (%o)', (config) => {
+    for (const id of generateBatch(200, 'ORG_TEAM', config)) {
+      const parsed = parseId(id, config);
+      expect(parsed.prefix).toBe('ORG_TEAM');
+      if (config.machineId !== undefined) {
+        expect(parsed.machineId).toBe(3);
+      }
+    }
+  });
+
+  it('should draw random bytes in pooled chunks', () => {
+    const random = vi.fn((size: number) => new Uint8Array(size).fill(7));
+    fillIds(new Array<string>(1000), undefined, { random });
+
+    // 9 bytes per ID from 16 KiB chunks
+    expect(random).toHaveBeenCalledTimes(1);
+    expect(random).toHaveBeenCalledWith(16384);
+  });
+
+  it('should hand out pooled bytes in order', () => {
+    let counter = 0;
+    const pool = createEntropyPool(
+      (size) => Uint8Array.from({ length: size }, () => counter++ % 256),
+      8
+    );
+
+    expect([...pool(3)]).toEqual([0, 1, 2]);
+    expect([...pool(4)]).toEqual([3, 4, 5, 6]);
+    expect([...pool(2)]).toEqual([8, 9]); // refilled
+    expect(pool(20)).toHaveLength(20); // bypasses the pool
+  });
+
+  it('should validate arguments eagerly', () => {
+    expect(() => generateBatch(-1)).toThrow(SparkIdError);
+    expect(() => generateBatch(1.5)).toThrow(SparkIdError);
+    expect(() => generateBatch(1, 'BAD!')).toThrow(InvalidPrefixError);
+    expect(() => fillIds([], 'BAD!')).toThrow(InvalidPrefixError);
+    expect([...generateBatch(0)]).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InvalidIdError,
+  SecureId,
+  SparkIdError,
+  generateId,
+} from '../../src/lib/secure-id';
+
+describe('Binary conversion', () => {
+  const alphabet = 'ybndrfg8ejkmcpqxot1uwisza345h769';
+  const configs = [
+    {},
+    { alphabet },
+    { alphabet, entropyBits: 64 },
+    { alphabet, entropyBits: 100 },
+    { alphabet, entropyBits: 128, case: 'lower' as const },
+    { encoding: 'hex' as const },
+    { encoding: 'base58' as const },
+    { encoding: 'base62' as const, entropyBits: 96 },
+    { encoding: 'base64' as const, entropyBits: 80, separator: '.' },
+    { encoding: 'custom' as const, alphabet: 'abcdefghij' },
+  ];
+
+  it.each(configs)('should round-trip IDs with %o', (config) => {
+    for (let i = 0; i < 50; i++) {
+      const id = generateId('USER', config);
+      const bytes = SecureId.toBytes(id, config);
+
+      expect(bytes.length).toBe(Math.ceil((config.entropyBits ?? 72) / 8));
+      expect(SecureId.fromBytes(bytes, 'USER', config).full).toBe(id);
+    }
+  });
+
+  it('should produce the 9-byte payload by default', () => {
+    const bytes = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 255]);
+    const secureId = SecureId.fromBytes(bytes, undefined, { alphabet });
+
+    expect(secureId.id).toHaveLength(15);
+    expect(SecureId.toBytes(secureId.full, { alphabet })).toEqual(bytes);
+  });
+
+  it('should accept either case for case-insensitive alphabets', () => {
+    const id = generateId();
+    expect(SecureId.toBytes(id.toLowerCase())).toEqual(SecureId.toBytes(id));
+  });
+
+  it('should reject invalid IDs and payloads', () => {
+    expect(() => SecureId.toBytes('not-an-id')).toThrow(InvalidIdError);
+    expect(() => SecureId.fromBytes(new Uint8Array(8))).toThrow(SparkIdError);
+    expect(() => SecureId.fromBytes(new Uint8Array(8))).toThrow(/9 bytes/);
+  });
+
+  it('should refuse layouts with a timestamp or machine ID', () => {
+    const config = { timestamp: true };
+    expect(() =>
+      SecureId.toBytes(generateId(undefined, config), config)
+    ).toThrow(/not supported/);
+    expect(() =>
+      SecureId.fromBytes(new Uint8Array(9), undefined, { machineId: 1 })
+    ).toThrow(/not supported/);
+  });
+});
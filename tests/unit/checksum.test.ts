@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InvalidIdError,
+  SecureId,
+  SparkIdError,
+  createId,
+  generateId,
+  isValidId,
+  parseId,
+  validateId,
+} from '../../src/lib/secure-id';
+import type { SparkIdConfig } from '../../src/types';
+
+const ALPHABET = 'ybndrfg8ejkmcpqxot1uwisza345h769'.toUpperCase();
+
+// Every single-character substitution of a body
+function substitutions(id: string, alphabet: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < id.length; i++) {
+    for (const char of alphabet) {
+      if (char !== id[i]) result.push(id.slice(0, i) + char + id.slice(i + 1));
+    }
+  }
+  return result;
+}
+
+// Every adjacent transposition of distinct characters
+function transpositions(id: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < id.length - 1; i++) {
+    if (id[i] !== id[i + 1]) {
+      result.push(id.slice(0, i) + id[i + 1] + id[i] + id.slice(i + 2));
+    }
+  }
+  return result;
+}
+
+describe('Checksums', () => {
+  describe('damm', () => {
+    const config: Partial<SparkIdConfig> = { checksum: 'damm' };
+
+    it('should append one check character', () => {
+      const id = generateId(undefined, config);
+      expect(id).toHaveLength(16);
+      expect(isValidId(id, config)).toBe(true);
+    });
+
+    it('should detect every single-character error', () => {
+      const id = generateId(undefined, config);
+      substitutions(id, ALPHABET).forEach((typo) => {
+        expect(isValidId(typo, config)).toBe(false);
+      });
+    });
+
+    it('should detect every adjacent transposition', () => {
+      for (let i = 0; i < 20; i++) {
+        const id = generateId(undefined, config);
+        transpositions(id).forEach((typo) => {
+          expect(isValidId(typo, config)).toBe(false);
+        });
+      }
+    });
+
+    it.each(['hex', 'base64', 'crockford'] as const)(
+      'should work with %s',
+      (encoding) => {
+        const withEncoding = { ...config, encoding, separator: '.' };
+        const id = generateId('USER', withEncoding);
+        expect(isValidId(id, withEncoding)).toBe(true);
+      }
+    );
+
+    it('should require a power-of-two alphabet', () => {
+      expect(() =>
+        generateId(undefined, { checksum: 'damm', encoding: 'base62' })
+      ).toThrow(SparkIdError);
+    });
+  });
+
+  describe('luhn', () => {
+    it.each(['base32', 'base58', 'base62'] as const)(
+      'should detect every single-character error with %s',
+      (encoding) => {
+        const config = { checksum: 'luhn' as const, encoding };
+        const id = generateId(undefined, config);
+        const alphabet =
+          encoding === 'base32'
+            ? ALPHABET
+            : '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+        expect(isValidId(id, config)).toBe(true);
+        substitutions(id, alphabet).forEach((typo) => {
+          expect(isValidId(typo, config)).toBe(false);
+        });
+      }
+    );
+  });
+
+  describe('validation results', () => {
+    const config: Partial<SparkIdConfig> = { checksum: 'damm' };
+
+    it('should report CHECKSUM_MISMATCH for typos', () => {
+      const id = generateId('USER', config);
+      const [typo] = transpositions(id.slice(5)).map((body) => `USER_${body}`);
+
+      expect(validateId(id, config)).toEqual({
+        isValid: true,
+        error: undefined,
+        code: undefined,
+      });
+      expect(validateId(typo, config)).toEqual({
+        isValid: false,
+        error: 'Checksum mismatch',
+        code: 'CHECKSUM_MISMATCH',
+      });
+      expect(() => parseId(typo, config)).toThrow(InvalidIdError);
+      expect(() => parseId(typo, config)).toThrow(/Checksum does not match/);
+    });
+
+    it('should report the failed check for malformed IDs', () => {
+      expect(validateId('USER_!!!', config).code).toBe('BAD_LENGTH');
+    });
+
+    it('should keep SecureId.validate in line with validateId', () => {
+      expect(createId('USER').validate()).toEqual(
+        validateId(generateId('USER'))
+      );
+    });
+
+    it('should round-trip through binary conversion', () => {
+      const id = generateId('USER', config);
+      const bytes = SecureId.toBytes(id, config);
+      expect(SecureId.fromBytes(bytes, 'USER', config).full).toBe(id);
+    });
+  });
+});
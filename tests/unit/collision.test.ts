@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  estimateCollisionRisk,
+  getCollisionProbability,
+} from '../../src/lib/collision';
+import { SecureId, SparkIdError } from '../../src/lib/secure-id';
+
+describe('Collision risk', () => {
+  it('should apply the birthday bound', () => {
+    // 23 people, 365 birthdays: just over a coin flip
+    expect(getCollisionProbability(Math.log2(365), 23)).toBeCloseTo(0.5, 1);
+    expect(getCollisionProbability(72, 0)).toBe(0);
+    expect(getCollisionProbability(72, 1)).toBe(0);
+    // Tiny probabilities keep their precision
+    expect(getCollisionProbability(128, 2)).toBe(Math.pow(2, -128));
+  });
+
+  it('should estimate the risk for an ID volume', () => {
+    const risk = estimateCollisionRisk({ entropyBits: 72, count: 1e9 });
+
+    expect(risk.entropyBits).toBe(72);
+    expect(risk.count).toBe(1e9);
+    expect(risk.probability).toBeCloseTo(1.06e-4, 6);
+    expect(risk.threshold).toBe(1e-6);
+    expect(risk.requiredEntropyBits).toBe(79);
+    expect(risk).not.toHaveProperty('secondsToThreshold');
+  });
+
+  it('should find the volume that reaches the threshold', () => {
+    const { maxIds } = estimateCollisionRisk({ entropyBits: 64 });
+
+    expect(getCollisionProbability(64, maxIds)).toBeLessThanOrEqual(1e-6);
+    expect(getCollisionProbability(64, maxIds + 1)).toBeGreaterThan(1e-6);
+    expect(estimateCollisionRisk({ entropyBits: 64 })).not.toHaveProperty(
+      'probability'
+    );
+  });
+
+  it('should keep the required entropy within the threshold', () => {
+    for (const count of [10, 1e6, 1e12]) {
+      const { requiredEntropyBits } = estimateCollisionRisk({
+        count,
+        threshold: 1e-9,
+      });
+
+      expect(
+        getCollisionProbability(requiredEntropyBits!, count)
+      ).toBeLessThanOrEqual(1e-9);
+      expect(
+        getCollisionProbability(requiredEntropyBits! - 1, count)
+      ).toBeGreaterThan(1e-9);
+    }
+  });
+
+  it('should accept a rate and a time span', () => {
+    const year = 365 * 86400;
+    const risk = estimateCollisionRisk({
+      entropyBits: 128,
+      rate: 1000,
+      duration: year,
+    });
+
+    expect(risk.count).toBe(1000 * year);
+    expect(risk.probability).toBeLessThan(1e-15);
+    expect(risk.secondsToThreshold).toBe(risk.maxIds / 1000);
+  });
+
+  it('should derive entropy from a config', () => {
+    expect(estimateCollisionRisk().entropyBits).toBe(72);
+    expect(
+      estimateCollisionRisk({ config: { entropyBits: 100 } }).entropyBits
+    ).toBe(104);
+    expect(
+      estimateCollisionRisk({ config: { encoding: 'hex', length: 16 } })
+        .entropyBits
+    ).toBe(SecureId.getEntropyBits({ encoding: 'hex', length: 16 }));
+  });
+
+  it('should reject invalid options', () => {
+    const codeOf = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SparkIdError);
+        return (error as SparkIdError).code;
+      }
+    };
+
+    expect(codeOf(() => estimateCollisionRisk({ entropyBits: 0 }))).toBe(
+      'INVALID_ENTROPY'
+    );
+    expect(codeOf(() => estimateCollisionRisk({ threshold: 1 }))).toBe(
+      'INVALID_THRESHOLD'
+    );
+    expect(codeOf(() => estimateCollisionRisk({ count: -1 }))).toBe(
+      'INVALID_COUNT'
+    );
+    expect(codeOf(() => estimateCollisionRisk({ duration: 60 }))).toBe(
+      'INVALID_COUNT'
+    );
+    expect(codeOf(() => estimateCollisionRisk({ config: { length: 0 } }))).toBe(
+      'INVALID_LENGTH'
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  InvalidConfigError,
+  SparkIdError,
+  configure,
+  createGenerator,
+  createId,
+  generateBatch,
+  generateId,
+  getConfig,
+  isValidId,
+  parseId,
+  registerPrefix,
+  resetConfig,
+  validateConfig,
+  validateId,
+} from '../../src/lib/secure-id';
+import type { SparkIdConfig } from '../../src/types';
+import { DEFAULT_CONFIG } from '../../src/types';
+
+const issuesOf = (config: Partial<SparkIdConfig>) => {
+  try {
+    validateConfig(config);
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidConfigError);
+    return (error as InvalidConfigError).issues;
+  }
+  return [];
+};
+
+describe('Config validation', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('should accept the defaults and valid configs', () => {
+    expect(() => validateConfig()).not.toThrow();
+    expect(() => validateConfig(DEFAULT_CONFIG)).not.toThrow();
+    expect(() =>
+      validateConfig({ encoding: 'base64', separator: '.', length: 20 })
+    ).not.toThrow();
+    expect(() =>
+      validateConfig({ encoding: 'crockford', checksum: 'mod37' })
+    ).not.toThrow();
+  });
+
+  it('should report every problem at once with field paths', () => {
+    const issues = issuesOf({
+      entropyBits: 0,
+      maxPrefixLength: -1,
+      separator: '',
+      case: 'title' as SparkIdConfig['case'],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'entropyBits',
+      'maxPrefixLength',
+      'separator',
+      'case',
+    ]);
+
+    const error = new InvalidConfigError(issues);
+    expect(error).toBeInstanceOf(SparkIdError);
+    expect(error.code).toBe('INVALID_CONFIG');
+    expect(error.message).toMatch(/^Invalid configuration: entropyBits: /);
+    expect(error.message).toContain('separator: Separator must be');
+  });
+
+  it('should reject separators that appear in IDs', () => {
+    expect(issuesOf({ separator: 'x' })).toEqual([
+      {
+        path: 'separator',
+        message: 'Separator "x" contains characters used in IDs: x',
+        code: 'INVALID_CONFIG',
+      },
+    ]);
+    // z-base-32 is case-insensitive
+    expect(issuesOf({ separator: 'X' })).toHaveLength(1);
+    expect(issuesOf({ encoding: 'base64' })[0].path).toBe('separator');
+    expect(issuesOf({ encoding: 'crockford', separator: '-' })).toHaveLength(1);
+    expect(
+      issuesOf({ encoding: 'crockford', checksum: 'mod37', separator: '~' })
+    ).toHaveLength(1);
+    expect(issuesOf({ encoding: 'hex', separator: '-' })).toEqual([]);
+  });
+
+  it('should keep the codes of specific checks', () => {
+    expect(issuesOf({ machineId: 99, machineIdBits: 4 })).toEqual([
+      expect.objectContaining({
+        path: 'machineId',
+        code: 'INVALID_MACHINE_ID',
+      }),
+    ]);
+    expect(issuesOf({ encoding: 'base62', checksum: 'damm' })).toEqual([
+      expect.objectContaining({ path: 'checksum', code: 'UNSUPPORTED_CONFIG' }),
+    ]);
+    expect(issuesOf({ length: 12, timestamp: true })).toEqual([
+      expect.objectContaining({ path: 'length', code: 'INVALID_LENGTH' }),
+    ]);
+    expect(() => generateId(undefined, { machineId: 1.5 })).toThrow(
+      expect.objectContaining({ code: 'INVALID_MACHINE_ID' })
+    );
+  });
+
+  it('should check the types of other fields', () => {
+    const issues = issuesOf({
+      encoding: 'base36' as SparkIdConfig['encoding'],
+      timestamp: 'yes' as unknown as boolean,
+      random: 42 as unknown as SparkIdConfig['random'],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'timestamp',
+      'random',
+      'encoding',
+    ]);
+  });
+
+  it('should validate configure() before applying it', () => {
+    expect(() => configure({ entropyBits: 0 })).toThrow(InvalidConfigError);
+    expect(getConfig()).toEqual(DEFAULT_CONFIG);
+
+    configure({ separator: '-' });
+    expect(() => validateConfig({ separator: '.' })).not.toThrow();
+    expect(() => validateConfig({ encoding: 'hex', length: 0 })).toThrow(
+      /length: Invalid length/
+    );
+  });
+
+  it('should validate per-call configs on every entry point', () => {
+    const bad = { separator: '' };
+
+    expect(() => generateId('USER', bad)).toThrow(InvalidConfigError);
+    expect(() => createId('USER', bad)).toThrow(InvalidConfigError);
+    expect(() => generateBatch(3, 'USER', bad)).toThrow(InvalidConfigError);
+    expect(() => parseId('USER_ABC', bad)).toThrow(InvalidConfigError);
+    expect(() => isValidId('USER_ABC', bad)).toThrow(InvalidConfigError);
+    expect(() => validateId('USER_ABC', bad)).toThrow(InvalidConfigError);
+    expect(() => createGenerator(bad)).toThrow(InvalidConfigError);
+    expect(() => registerPrefix('USER', bad)).toThrow(InvalidConfigError);
+  });
+
+  it('should report config problems before prefix problems', () => {
+    expect(() => generateId('USER', { maxPrefixLength: -1 })).toThrow(
+      expect.objectContaining({
+        name: 'InvalidConfigError',
+        issues: [expect.objectContaining({ path: 'maxPrefixLength' })],
+      })
+    );
+  });
+});
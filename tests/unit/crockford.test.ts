@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { getCheckSymbol, normalizeCrockford } from '../../src/lib/crockford';
+import {
+  SecureId,
+  SparkIdError,
+  generateId,
+  isValidId,
+  parseId,
+} from '../../src/lib/secure-id';
+
+describe('Crockford base32', () => {
+  const config = { encoding: 'crockford' as const };
+
+  it('should generate uppercase Crockford IDs', () => {
+    const id = generateId('USER', config);
+    expect(id).toMatch(/^USER_[0-9A-HJKMNP-TV-Z]{15}$/);
+    expect(isValidId(id, config)).toBe(true);
+  });
+
+  it('should normalize confusable characters, hyphens and case', () => {
+    expect(normalizeCrockford('Il-Oo-AbC')).toBe('1100abc');
+  });
+
+  it('should accept hand-typed IDs and return the canonical form', () => {
+    const canonical = 'USER_0123456789ABCDE';
+    const typed = 'user_O123-4567-89abcde'.replace('1', 'l');
+
+    expect(isValidId(typed, config)).toBe(true);
+    expect(parseId(typed, config)).toEqual({
+      prefix: 'user',
+      prefixPath: ['user'],
+      id: '0123456789ABCDE',
+      full: 'user_0123456789ABCDE',
+    });
+    expect(parseId(canonical, config).id).toBe('0123456789ABCDE');
+  });
+
+  it('should not be lenient for other encodings', () => {
+    const id = generateId(undefined, { encoding: 'hex' });
+    expect(
+      isValidId(`${id.slice(0, 9)}-${id.slice(9)}`, { encoding: 'hex' })
+    ).toBe(false);
+  });
+
+  describe('mod-37 check symbol', () => {
+    const checked = { ...config, checksum: 'mod37' as const };
+
+    it('should compute Crockford check symbols', () => {
+      expect(getCheckSymbol('0')).toBe('0');
+      expect(getCheckSymbol('z')).toBe('z'); // 31
+      expect(getCheckSymbol('10')).toBe('*'); // 32
+      expect(getCheckSymbol('14')).toBe('u'); // 36
+      expect(getCheckSymbol('15')).toBe('0'); // 37
+    });
+
+    it('should append and verify the check symbol', () => {
+      for (let i = 0; i < 50; i++) {
+        const id = generateId('ORD', checked);
+        expect(id).toMatch(/^ORD_[0-9A-HJKMNP-TV-Z]{15}[0-9A-HJKMNP-Z*~$=]$/);
+        expect(isValidId(id, checked)).toBe(true);
+        expect(isValidId(id.toLowerCase(), checked)).toBe(true);
+      }
+    });
+
+    it('should reject a mistyped character', () => {
+      const id = generateId(undefined, checked);
+      const typo = (id[0] === '0' ? '1' : '0') + id.slice(1);
+      expect(isValidId(typo, checked)).toBe(false);
+    });
+
+    it('should round-trip through binary conversion', () => {
+      const id = generateId('ORD', checked);
+      const bytes = SecureId.toBytes(id, checked);
+      expect(SecureId.fromBytes(bytes, 'ORD', checked).full).toBe(id);
+    });
+
+    it('should require Crockford encoding', () => {
+      expect(() => generateId(undefined, { checksum: 'mod37' })).toThrow(
+        SparkIdError
+      );
+    });
+  });
+});
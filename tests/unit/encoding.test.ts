@@ -0,0 +1,95 @@
+import { randomBytes } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  ENCODING_ALPHABETS,
+  decodeBytes,
+  encodeBytes,
+  getEncodedLength,
+} from '../../src/lib/encoding';
+import { SparkIdError, generateId, isValidId } from '../../src/lib/secure-id';
+
+describe('Encodings', () => {
+  const alphabets = {
+    ...ENCODING_ALPHABETS,
+    base32: 'ybndrfg8ejkmcpqxot1uwisza345h769',
+    custom: 'abc',
+  };
+
+  it.each(Object.entries(alphabets))(
+    'should round-trip bytes through %s',
+    (_, alphabet) => {
+      for (const length of [1, 2, 5, 9, 16, 33]) {
+        const bytes = new Uint8Array(randomBytes(length));
+        const encoded = encodeBytes(bytes, alphabet);
+
+        expect(encoded.length).toBe(getEncodedLength(length, alphabet.length));
+        expect(decodeBytes(encoded, alphabet, length)).toEqual(bytes);
+      }
+    }
+  );
+
+  it('should keep leading zero bytes in fixed-width encodings', () => {
+    const bytes = new Uint8Array([0, 0, 0, 1]);
+    const encoded = encodeBytes(bytes, ENCODING_ALPHABETS.base58!);
+
+    expect(encoded).toBe('111112');
+    expect(decodeBytes(encoded, ENCODING_ALPHABETS.base58!, 4)).toEqual(bytes);
+  });
+
+  it('should reject non-canonical input when decoding', () => {
+    const hex = ENCODING_ALPHABETS.hex!;
+    expect(decodeBytes('abc', hex, 2)).toBeUndefined(); // wrong length
+    expect(decodeBytes('zz', hex, 1)).toBeUndefined(); // unknown character
+    // 1 byte in base64 uses 2 characters; the last 4 bits are padding
+    expect(decodeBytes('AB', ENCODING_ALPHABETS.base64!, 1)).toBeUndefined();
+    // 2 bytes need 3 base62 digits, which can exceed 0xffff
+    expect(decodeBytes('zzz', ENCODING_ALPHABETS.base62!, 2)).toBeUndefined();
+  });
+
+  it.each(['hex', 'base58', 'base62', 'base64'] as const)(
+    'should generate and validate %s IDs',
+    (encoding) => {
+      // base64 uses '_' and '-', which validateConfig rejects as separators
+      const config = { encoding, separator: '.' };
+      const id = generateId('USER', config);
+
+      expect(isValidId(id, config)).toBe(true);
+      expect(isValidId(id)).toBe(false);
+    }
+  );
+
+  it('should produce the expected body lengths', () => {
+    const body = (encoding: 'hex' | 'base58' | 'base62' | 'base64') =>
+      generateId(undefined, { encoding, separator: '.' });
+
+    expect(body('hex')).toMatch(/^[0-9A-F]{18}$/);
+    expect(body('base58')).toHaveLength(13);
+    expect(body('base62')).toHaveLength(13);
+    expect(body('base64')).toMatch(/^[A-Za-z0-9_-]{12}$/);
+  });
+
+  it('should preserve case for case-sensitive alphabets', () => {
+    const config = { encoding: 'base62' as const, case: 'upper' as const };
+    const ids = Array.from({ length: 20 }, () => generateId(undefined, config));
+
+    expect(ids.some((id) => /[a-z]/.test(id))).toBe(true);
+    ids.forEach((id) => expect(isValidId(id, config)).toBe(true));
+  });
+
+  it('should support arbitrary-radix custom alphabets', () => {
+    const config = { encoding: 'custom' as const, alphabet: 'abcdefg' };
+    const id = generateId(undefined, config);
+
+    expect(id).toMatch(/^[A-G]+$/);
+    expect(isValidId(id, config)).toBe(true);
+  });
+
+  it('should reject alphabets that are too small', () => {
+    expect(() =>
+      generateId(undefined, { encoding: 'custom', alphabet: 'a' })
+    ).toThrow(SparkIdError);
+    expect(() =>
+      generateId(undefined, { encoding: 'base32', alphabet: 'abc' })
+    ).toThrow(/exactly 32 characters/);
+  });
+});
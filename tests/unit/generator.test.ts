@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  SecureId,
+  configure,
+  createGenerator,
+  generateId,
+  getConfig,
+  isValidId,
+  parseId,
+  resetConfig,
+} from '../../src/lib/secure-id';
+import { DEFAULT_CONFIG } from '../../src/types';
+
+describe('createGenerator', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('should bind its methods to its own config', () => {
+    const dashed = createGenerator({ separator: '-', case: 'lower' });
+    const id = dashed.generate('user');
+
+    expect(id).toMatch(/^user-[a-z0-9]{15}$/);
+    expect(dashed.isValid(id)).toBe(true);
+    expect(dashed.validate(id)).toEqual({
+      isValid: true,
+      error: undefined,
+      code: undefined,
+    });
+    expect(dashed.parse(id).prefix).toBe('user');
+    expect(dashed.create('TXN').full).toMatch(/^txn-/);
+
+    // The default generator still uses '_'
+    expect(isValidId(id)).toBe(false);
+  });
+
+  it('should not be affected by configure()', () => {
+    const library = createGenerator({ separator: '.' });
+    configure({ separator: '-', encoding: 'hex' });
+
+    const id = library.generate('LIB');
+    expect(id).toMatch(/^LIB\.[A-Z0-9]{15}$/);
+    expect(library.isValid(id)).toBe(true);
+    expect(generateId('APP')).toMatch(/^APP-[0-9A-F]{18}$/);
+  });
+
+  it('should keep generators isolated from each other', () => {
+    const a = createGenerator({ separator: '-' });
+    const b = createGenerator({ separator: '.' });
+
+    expect(a.generate('A')).toMatch(/^A-/);
+    expect(b.generate('B')).toMatch(/^B\./);
+    expect(a.isValid(b.generate('B'))).toBe(false);
+  });
+
+  it('should let per-call config override the generator config', () => {
+    const hex = createGenerator({ encoding: 'hex' });
+    const id = hex.generate(undefined, { length: 8 });
+
+    expect(id).toMatch(/^[0-9A-F]{8}$/);
+    expect(hex.isValid(id, { length: 8 })).toBe(true);
+  });
+
+  it('should restore the default config after errors', () => {
+    const strict = createGenerator({ separator: '-' });
+
+    expect(() => strict.parse('not an id')).toThrow();
+    expect(() => strict.generate('BAD!')).toThrow();
+    expect(generateId('USER')).toMatch(/^USER_/);
+  });
+
+  it('should be frozen', () => {
+    const generator = createGenerator({ separator: '-' });
+
+    expect(Object.isFrozen(generator)).toBe(true);
+    expect(Object.isFrozen(generator.config)).toBe(true);
+    expect(generator.config.separator).toBe('-');
+    expect(() => {
+      (generator.config as { separator?: string }).separator = '_';
+    }).toThrow(TypeError);
+  });
+
+  it('should back the global configuration helpers', () => {
+    expect(getConfig()).toEqual(DEFAULT_CONFIG);
+
+    configure({ separator: '-' });
+    configure({ case: 'lower' });
+    expect(getConfig()).toMatchObject({ separator: '-', case: 'lower' });
+    expect(parseId(generateId('user')).prefix).toBe('user');
+    expect(SecureId.getConfig()).toEqual(getConfig());
+
+    resetConfig();
+    expect(getConfig()).toEqual(DEFAULT_CONFIG);
+  });
+});
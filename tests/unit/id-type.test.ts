@@ -0,0 +1,93 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { defineIdType, type IdOf } from '../../src/lib/id-type';
+import {
+  InvalidIdError,
+  InvalidPrefixError,
+  SparkIdError,
+  generateId,
+} from '../../src/lib/secure-id';
+import type { SparkId } from '../../src/types';
+
+describe('defineIdType', () => {
+  const UserId = defineIdType('USER');
+  const TxnId = defineIdType('TXN');
+
+  it('should generate IDs with the type prefix', () => {
+    const id = UserId.generate();
+
+    expect(id).toMatch(/^USER_[ybndrfg8ejkmcpqxot1uwisza345h769]+$/i);
+    expect(UserId.create().prefix).toBe('USER');
+    expectTypeOf(id).toEqualTypeOf<SparkId<'USER'>>();
+    expectTypeOf(id).toEqualTypeOf<IdOf<typeof UserId>>();
+  });
+
+  it('should keep ID kinds apart at compile time', () => {
+    const takesUserId = (id: SparkId<'USER'>) => id;
+
+    takesUserId(UserId.generate());
+    // @ts-expect-error a transaction ID is not a user ID
+    takesUserId(TxnId.generate());
+    // @ts-expect-error plain strings must be validated first
+    takesUserId('USER_YBNDRFG8EJKMCP');
+
+    expectTypeOf<SparkId<'TXN'>>().not.toMatchTypeOf<SparkId<'USER'>>();
+  });
+
+  it('should narrow valid strings with the same prefix', () => {
+    const value: unknown = UserId.generate();
+
+    expect(UserId.isValid(value)).toBe(true);
+    expect(TxnId.isValid(value)).toBe(false);
+    expect(UserId.isValid(generateId())).toBe(false);
+    expect(UserId.isValid('USER_invalid!')).toBe(false);
+    expect(UserId.isValid(42)).toBe(false);
+  });
+
+  it('should report prefix mismatches when validating', () => {
+    expect(UserId.validate(UserId.generate()).isValid).toBe(true);
+    expect(UserId.validate(TxnId.generate())).toEqual({
+      isValid: false,
+      error: 'Prefix mismatch',
+      code: 'PREFIX_MISMATCH',
+    });
+    expect(UserId.validate('USER_invalid!').code).toBe('BAD_LENGTH');
+  });
+
+  it('should suggest the canonical form for a miscased prefix', () => {
+    const id = UserId.generate();
+
+    expect(UserId.validate(id.toLowerCase())).toMatchObject({
+      isValid: false,
+      code: 'PREFIX_MISMATCH',
+      suggestion: id,
+    });
+  });
+
+  it('should parse IDs of its own type only', () => {
+    const id = UserId.generate();
+    const parsed = UserId.parse(id);
+
+    expect(parsed.prefix).toBe('USER');
+    expect(parsed.full).toBe(id);
+    expect(() => UserId.parse(TxnId.generate())).toThrow(InvalidIdError);
+    expect(() => UserId.parse(TxnId.generate())).toThrow(
+      expect.objectContaining({ code: 'PREFIX_MISMATCH' })
+    );
+  });
+
+  it('should apply the type config', () => {
+    const HexId = defineIdType('HEX', { encoding: 'hex', length: 16 });
+    const id = HexId.generate();
+
+    expect(id).toMatch(/^HEX_[0-9A-F]{16}$/);
+    expect(HexId.isValid(id)).toBe(true);
+    expect(UserId.isValid(id)).toBe(false);
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(() => defineIdType('USER-ID')).toThrow(InvalidPrefixError);
+    expect(() => defineIdType('')).toThrow(InvalidPrefixError);
+    expect(() => defineIdType('user')).toThrow(SparkIdError);
+    expect(() => defineIdType('user', { case: 'lower' })).not.toThrow();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { encodeRandom } from '../../src/lib/encoding';
+import {
+  SecureId,
+  SparkIdError,
+  generateId,
+  isValidId,
+} from '../../src/lib/secure-id';
+
+describe('Fixed-length IDs', () => {
+  it.each([
+    ['base32', 12],
+    ['hex', 7],
+    ['base58', 12],
+    ['base62', 20],
+    ['crockford', 10],
+  ] as const)('should generate %s IDs of length %i', (encoding, length) => {
+    const config = { encoding, length };
+    for (let i = 0; i < 20; i++) {
+      const id = generateId(undefined, config);
+      expect(id).toHaveLength(length);
+      expect(isValidId(id, config)).toBe(true);
+    }
+  });
+
+  it('should enforce the exact length', () => {
+    const config = { length: 12 };
+    const id = generateId('URL', config);
+
+    expect(isValidId(id, config)).toBe(true);
+    expect(isValidId(id.slice(0, -1), config)).toBe(false);
+    expect(isValidId(`${id}Y`, config)).toBe(false);
+    expect(isValidId(id)).toBe(false);
+  });
+
+  it('should count timestamp, machine ID and checksum in the length', () => {
+    const config = {
+      length: 20,
+      timestamp: true,
+      machineId: 3,
+      checksum: 'damm' as const,
+    };
+    const id = generateId(undefined, config);
+
+    expect(id).toHaveLength(20);
+    expect(isValidId(id, config)).toBe(true);
+  });
+
+  it('should reject lengths without room for random characters', () => {
+    expect(() => generateId(undefined, { length: 0 })).toThrow(SparkIdError);
+    expect(() => generateId(undefined, { length: 2.5 })).toThrow(
+      /Invalid length/
+    );
+    expect(() =>
+      generateId(undefined, { length: 12, timestamp: true })
+    ).toThrow(/at least one random character/);
+  });
+
+  it('should not support binary conversion', () => {
+    const config = { length: 12 };
+    expect(() =>
+      SecureId.toBytes(generateId(undefined, config), config)
+    ).toThrow(/not supported/);
+  });
+
+  describe('encodeRandom', () => {
+    // Deterministic byte source cycling through every byte value
+    const counter = () => {
+      let next = 0;
+      return (size: number) =>
+        Uint8Array.from({ length: size }, () => next++ & 0xff);
+    };
+
+    it('should draw each digit equally often without modulo bias', () => {
+      const alphabet = 'abcdefghij'; // masked to 4 bits, 6 of 16 rejected
+      const result = encodeRandom(10_000, alphabet, counter());
+      const counts = [...alphabet].map((char) => result.split(char).length - 1);
+
+      expect(result).toHaveLength(10_000);
+      expect(new Set(counts).size).toBe(1);
+    });
+
+    it('should use whole bits for power-of-two alphabets', () => {
+      expect(encodeRandom(4, '0123456789abcdef', counter())).toBe('0001');
+    });
+  });
+});
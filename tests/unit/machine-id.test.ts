@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SecureId,
+  SparkIdError,
+  generateId,
+  isValidId,
+  parseId,
+} from '../../src/lib/secure-id';
+
+describe('Node-tagged IDs', () => {
+  it('should round-trip the machine ID through parse', () => {
+    const config = { machineId: 42 };
+    const id = generateId('JOB', config);
+
+    expect(isValidId(id, config)).toBe(true);
+    expect(SecureId.parse(id, config).machineId).toBe(42);
+  });
+
+  it('should only need the bit width to parse', () => {
+    const id = generateId('JOB', { machineId: '513', machineIdBits: 12 });
+    expect(parseId(id, { machineIdBits: 12 }).machineId).toBe(513);
+  });
+
+  it('should combine with timestamp mode', () => {
+    const config = { timestamp: true, machineId: 7, machineIdBits: 5 };
+    const parsed = parseId(generateId('EVT', config), config);
+
+    expect(parsed.machineId).toBe(7);
+    expect(parsed.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should reject machine IDs outside the declared width', () => {
+    expect(() => generateId(undefined, { machineId: 1024 })).toThrow(
+      SparkIdError
+    );
+    expect(() =>
+      generateId(undefined, { machineId: 16, machineIdBits: 4 })
+    ).toThrow(/between 0 and 15/);
+    expect(() => generateId(undefined, { machineId: -1 })).toThrow();
+    expect(() => generateId(undefined, { machineId: 'worker-1' })).toThrow();
+    expect(() =>
+      generateId(undefined, { machineId: 1, machineIdBits: 0 })
+    ).toThrow();
+  });
+
+  it('should report INVALID_MACHINE_ID', () => {
+    expect.assertions(1);
+    try {
+      generateId(undefined, { machineId: 1.5 });
+    } catch (error) {
+      expect((error as SparkIdError).code).toBe('INVALID_MACHINE_ID');
+    }
+  });
+
+  it('should reject IDs whose slot exceeds the declared width', () => {
+    const config = { machineId: 0, machineIdBits: 3 };
+    const id = generateId(undefined, config);
+    // A 3-bit slot fits in one base32 character; "Z" is the highest digit
+    const tampered = 'Z' + id.slice(1);
+
+    expect(isValidId(tampered, config)).toBe(false);
+  });
+});
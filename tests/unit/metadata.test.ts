@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createSeededGenerator } from '../../src/lib/random';
+import {
+  SecureId,
+  clearPrefixes,
+  configure,
+  createGenerator,
+  createId,
+  registerPrefix,
+  resetConfig,
+} from '../../src/lib/secure-id';
+
+describe('SecureId metadata', () => {
+  afterEach(() => {
+    resetConfig();
+    clearPrefixes();
+  });
+
+  it('should derive entropy from the effective config', () => {
+    expect(createId().getEntropyBits()).toBe(72);
+    expect(createId('USER', { entropyBits: 128 }).getEntropyBits()).toBe(128);
+    // Whole bytes are drawn
+    expect(createId(undefined, { entropyBits: 100 }).getEntropyBits()).toBe(
+      104
+    );
+    // Fixed length: 10 random hex characters, 4 bits each
+    expect(
+      createId(undefined, { encoding: 'hex', length: 10 }).getEntropyBits()
+    ).toBe(40);
+    expect(
+      createId(undefined, { length: 12, checksum: 'luhn' }).getEntropyBits()
+    ).toBe(55);
+  });
+
+  it('should base stats on the entropy', () => {
+    const stats = createId('USER', { entropyBits: 128 }).getStats();
+
+    expect(stats.entropyBits).toBe(128);
+    expect(stats.maxIds).toBe(Math.pow(2, 128));
+    expect(stats.collisionProbability).toBe(Math.pow(2, -128));
+  });
+
+  it('should remember the config it was created with', () => {
+    const config = { separator: '-', encoding: 'hex' as const };
+    const id = createId('USER', config);
+
+    expect(id.config).toMatchObject(config);
+    expect(Object.isFrozen(id.config)).toBe(true);
+    expect(id.validate().isValid).toBe(true);
+
+    // configure() does not change existing instances
+    configure({ separator: '.' });
+    expect(id.validate().isValid).toBe(true);
+
+    const similar = id.generateSimilar();
+    expect(similar.full).toMatch(/^USER-[0-9A-F]{18}$/);
+    expect(similar.config).toEqual(id.config);
+  });
+
+  it('should keep generator and prefix configs', () => {
+    const id = createGenerator({ case: 'lower' }).create('user');
+    expect(id.generateSimilar().full).toMatch(/^user_[a-z0-9]{15}$/);
+
+    registerPrefix('TXN', { encoding: 'hex' });
+    const txn = createId('TXN');
+    clearPrefixes();
+    expect(txn.validate().isValid).toBe(true);
+    expect(txn.generateSimilar().id).toMatch(/^[0-9A-F]{18}$/);
+  });
+
+  it('should keep the random source for similar IDs', () => {
+    const a = createId('USER', { random: createSeededGenerator(5) });
+    const b = createId('USER', { random: createSeededGenerator(5) });
+
+    expect(a.generateSimilar().full).toBe(b.generateSimilar().full);
+  });
+
+  it('should include metadata in toJSON only when asked', () => {
+    const id = createId('USER', {
+      timestamp: true,
+      machineId: 3,
+      random: createSeededGenerator(1),
+    });
+
+    expect(id.toJSON()).toEqual({
+      id: id.id,
+      prefix: 'USER',
+      full: id.full,
+    });
+    expect(JSON.parse(JSON.stringify({ id }))).toEqual({
+      id: { id: id.id, prefix: 'USER', full: id.full },
+    });
+
+    const { metadata } = id.toJSON({ metadata: true });
+    expect(metadata).toMatchObject({
+      entropyBits: 72,
+      alphabet: 'ybndrfg8ejkmcpqxot1uwisza345h769',
+      machineId: 3,
+      config: { timestamp: true, machineId: 3, separator: '_' },
+    });
+    expect(Date.parse(metadata!.timestamp!)).toBeLessThanOrEqual(Date.now());
+    expect(metadata!.config).not.toHaveProperty('random');
+    expect(JSON.parse(JSON.stringify(metadata))).toEqual(metadata);
+  });
+
+  it('should omit timestamp and machine ID when not configured', () => {
+    const metadata = SecureId.create().getMetadata();
+
+    expect(metadata).not.toHaveProperty('timestamp');
+    expect(metadata).not.toHaveProperty('machineId');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededGenerator } from '../../src/lib/random';
+import {
+  InvalidIdError,
+  SecureId,
+  createId,
+  generateId,
+  normalizeId,
+  parseId,
+} from '../../src/lib/secure-id';
+
+describe('Normalization', () => {
+  const id = generateId('USR');
+  const body = id.slice('USR_'.length);
+
+  it('should normalize prefix and body to one case', () => {
+    expect(SecureId.normalize(id.toLowerCase())).toBe(id);
+    expect(SecureId.normalize(`Usr_${body.toLowerCase()}`)).toBe(id);
+    expect(normalizeId(body.toLowerCase())).toBe(body);
+    expect(SecureId.normalize(id)).toBe(id);
+  });
+
+  it('should follow the configured case', () => {
+    expect(SecureId.normalize(id, { case: 'lower' })).toBe(id.toLowerCase());
+
+    // Mixed case accepts any spelling but still normalizes to one
+    const mixed = { case: 'mixed' as const };
+    expect(SecureId.normalize(`Usr_${body.toLowerCase()}`, mixed)).toBe(id);
+  });
+
+  it('should keep case-sensitive bodies as written', () => {
+    const config = { encoding: 'base62' as const };
+    const base62 = generateId('USR', config);
+    const base62Body = base62.slice('USR_'.length);
+
+    expect(SecureId.normalize(`usr_${base62Body}`, config)).toBe(base62);
+  });
+
+  it('should resolve lenient Crockford spellings', () => {
+    const config = { encoding: 'crockford' as const };
+    const ord = generateId('ORD', config);
+    const grouped = `${ord.slice(0, 8)}-${ord.slice(8)}`.toLowerCase();
+
+    expect(SecureId.normalize(grouped, config)).toBe(ord);
+  });
+
+  it('should reject invalid IDs', () => {
+    expect(() => SecureId.normalize('usr_abc')).toThrow(InvalidIdError);
+  });
+
+  it('should return the canonical form from parse when asked', () => {
+    const value = `Org_team_${body.toLowerCase()}`;
+
+    expect(parseId(value).prefix).toBe('Org_team');
+    expect(parseId(value, undefined, { canonical: true })).toEqual({
+      prefix: 'ORG_TEAM',
+      prefixPath: ['ORG', 'TEAM'],
+      id: body,
+      full: `ORG_TEAM_${body}`,
+    });
+  });
+});
+
+describe('Equality and comparison', () => {
+  const id = generateId('USR');
+
+  it('should compare IDs ignoring case', () => {
+    const secureId = new SecureId(id.slice(4), 'usr');
+
+    expect(secureId.equals(id.toLowerCase())).toBe(true);
+    expect(secureId.equals(createId('USR'))).toBe(false);
+    expect(SecureId.compare(id, id.toLowerCase())).toBe(0);
+  });
+
+  it('should keep case-sensitive bodies distinct', () => {
+    const config = { encoding: 'base62' as const };
+    const base62Body = generateId(undefined, {
+      ...config,
+      random: createSeededGenerator(7),
+    });
+    const swapped = base62Body.replace(/[a-z]/gi, (char) =>
+      char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase()
+    );
+    const secureId = new SecureId(base62Body, 'USR', config);
+
+    expect(swapped).not.toBe(base62Body);
+    expect(secureId.equals(`usr_${base62Body}`)).toBe(true);
+    expect(secureId.equals(`USR_${swapped}`)).toBe(false);
+    expect(SecureId.compare(secureId.full, `USR_${swapped}`, config)).not.toBe(
+      0
+    );
+  });
+
+  it('should sort and deduplicate by canonical form', () => {
+    const ids = [generateId('B'), generateId('A'), id, id.toLowerCase()];
+    const sorted = [...ids].sort((a, b) => SecureId.compare(a, b));
+    const unique = new Set(ids.map((value) => SecureId.normalize(value)));
+
+    expect(sorted.map((value) => value.slice(0, 2).toUpperCase())).toEqual([
+      'A_',
+      'B_',
+      'US',
+      'US',
+    ]);
+    expect(unique.size).toBe(3);
+  });
+
+  it('should compare invalid IDs as written', () => {
+    expect(SecureId.compare('abc', 'abc')).toBe(0);
+    expect(SecureId.compare('abc', 'ABC')).toBe(1);
+    expect(new SecureId('not-an-id').equals('not-an-id')).toBe(true);
+  });
+});
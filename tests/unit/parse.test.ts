@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { defineIdType } from '../../src/lib/id-type';
+import {
+  InvalidIdError,
+  generateId,
+  isValidId,
+  parseId,
+  validateId,
+} from '../../src/lib/secure-id';
+import type { SparkIdConfig } from '../../src/types';
+
+describe('Parsing', () => {
+  it('should parse prefixes that contain the separator', () => {
+    const id = generateId('ORG_TEAM_USER');
+    const parsed = parseId(id);
+
+    expect(parsed.prefix).toBe('ORG_TEAM_USER');
+    expect(parsed.prefixPath).toEqual(['ORG', 'TEAM', 'USER']);
+    expect(parsed.full).toBe(id);
+    expect(isValidId(id)).toBe(true);
+  });
+
+  it('should not split prefixes on characters other than the separator', () => {
+    const config = { separator: '-' };
+    const parsed = parseId(generateId('ORG_USER', config), config);
+
+    expect(parsed.prefix).toBe('ORG_USER');
+    expect(parsed.prefixPath).toEqual(['ORG_USER']);
+  });
+
+  it('should parse bodies of alphabets that contain the prefix characters', () => {
+    // base64 bodies can contain '_', which prefixes may also use
+    const config = { encoding: 'base64' as const, length: 40, separator: '.' };
+
+    for (let i = 0; i < 50; i++) {
+      const id = generateId('USER', config);
+      const parsed = parseId(id, config);
+
+      expect(parsed.prefix).toBe('USER');
+      expect(parsed.id).toHaveLength(40);
+      expect(parsed.full).toBe(id);
+    }
+  });
+
+  it('should report the failure for the last separator', () => {
+    const id = generateId('ORG_USER', { checksum: 'damm' });
+    const typo = id.slice(0, -1) + (id.endsWith('Y') ? 'B' : 'Y');
+
+    expect(validateId(typo, { checksum: 'damm' }).code).toBe(
+      'CHECKSUM_MISMATCH'
+    );
+    expect(() => parseId(`ORG_${generateId()}X`)).toThrow(InvalidIdError);
+  });
+
+  it('should support typed hierarchical prefixes', () => {
+    const MemberId = defineIdType('ORG_MEMBER');
+    const id = MemberId.generate();
+
+    expect(MemberId.parse(id).prefixPath).toEqual(['ORG', 'MEMBER']);
+    expect(MemberId.isValid(id)).toBe(true);
+    expect(defineIdType('MEMBER').isValid(id)).toBe(false);
+  });
+
+  const configs: Partial<SparkIdConfig>[] = [
+    {},
+    { case: 'lower' },
+    { case: 'mixed' },
+    { separator: '-' },
+    { separator: '.' },
+    { encoding: 'hex' },
+    { encoding: 'base58' },
+    { encoding: 'base62' },
+    { encoding: 'base64', separator: '.' },
+    { encoding: 'base64', separator: '~' },
+    { encoding: 'crockford', checksum: 'mod37' },
+    { encoding: 'custom', alphabet: 'abc_', separator: '.' },
+    { length: 6 },
+    { checksum: 'luhn' },
+    { timestamp: true, machineId: 7 },
+  ];
+  const prefixes = [undefined, 'A', 'USER', 'org_user', 'A_B_C', 'X1_'];
+
+  it.each(configs)(
+    'should round-trip everything generateId emits (%o)',
+    (config) => {
+      for (const prefix of prefixes) {
+        for (let i = 0; i < 20; i++) {
+          const id = generateId(prefix, config);
+          const parsed = parseId(id, config);
+
+          expect(parsed.full).toBe(id);
+          expect(parsed.prefix?.toUpperCase()).toBe(prefix?.toUpperCase());
+        }
+      }
+    }
+  );
+});
@@ -0,0 +1,274 @@
+import fc from 'fast-check';
+import { afterEach, describe, expect, it } from 'vitest';
+import { toPattern, toRegExp } from '../../src/lib/pattern';
+import { createSeededGenerator } from '../../src/lib/random';
+import { SecureId, SparkIdError, generateId } from '../../src/lib/secure-id';
+import type { SparkIdConfig } from '../../src/types';
+
+const ENCODINGS: Partial<SparkIdConfig>[] = [
+  {},
+  { encoding: 'crockford' },
+  { encoding: 'hex' },
+  { encoding: 'base58' },
+  { encoding: 'base62' },
+  { encoding: 'base64' },
+  { encoding: 'custom', alphabet: 'abcdefgh' },
+  { encoding: 'custom', alphabet: 'AbC-.' },
+];
+
+const isValidConfig = (config: Partial<SparkIdConfig>): boolean => {
+  try {
+    SecureId.validateConfig(config);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const configArbitrary = fc
+  .record({
+    base: fc.constantFrom(...ENCODINGS),
+    case: fc.constantFrom('upper', 'lower', 'mixed'),
+    separator: fc.constantFrom('_', '-', '.', '~', '::'),
+    layout: fc.constantFrom<Partial<SparkIdConfig>>(
+      {},
+      { entropyBits: 40 },
+      { length: 9 },
+      { timestamp: true },
+      { machineIdBits: 3, machineId: 5 },
+      { machineIdBits: 17, machineId: 70000, timestamp: true }
+    ),
+  })
+  .map(
+    ({ base, layout, ...rest }): Partial<SparkIdConfig> => ({
+      ...base,
+      ...layout,
+      ...rest,
+    })
+  )
+  .filter(isValidConfig);
+
+// Configs a registered prefix may bring, on top of the per-call config
+const prefixConfigArbitrary = fc.constantFrom<Partial<SparkIdConfig>>(
+  {},
+  { encoding: 'hex' },
+  { encoding: 'base62', length: 12 },
+  { entropyBits: 40 },
+  { timestamp: true },
+  { machineIdBits: 3, machineId: 5 }
+);
+
+// Edits that turn an ID into a near miss (or leave it valid)
+const mutationArbitrary = fc.array(
+  fc.record({
+    kind: fc.constantFrom('case', 'replace', 'delete', 'insert'),
+    at: fc.nat(),
+    char: fc.constantFrom(...'aZ0195Il0Oo-_.~:!*uU'),
+  }),
+  { maxLength: 2 }
+);
+
+const mutate = (
+  id: string,
+  mutations: { kind: string; at: number; char: string }[]
+): string =>
+  mutations.reduce((value, { kind, at, char }) => {
+    const index = at % (value.length + 1);
+    const before = value.slice(0, index);
+    const after = value.slice(index + 1);
+    const current = value[index] ?? '';
+
+    switch (kind) {
+      case 'case':
+        return (
+          before +
+          (current === current.toUpperCase()
+            ? current.toLowerCase()
+            : current.toUpperCase()) +
+          after
+        );
+      case 'replace':
+        return before + char + after;
+      case 'delete':
+        return before + after;
+      default:
+        return value.slice(0, index) + char + value.slice(index);
+    }
+  }, id);
+
+describe('toRegExp', () => {
+  afterEach(() => {
+    SecureId.unregisterPrefix('ORD');
+  });
+
+  it('should match exactly the IDs isValid accepts', () => {
+    fc.assert(
+      fc.property(
+        configArbitrary,
+        fc.option(prefixConfigArbitrary, { nil: undefined }),
+        fc.constantFrom(undefined, 'USER', 'Org_Team', 'ORD', 'ord'),
+        fc.boolean(),
+        fc.integer(),
+        mutationArbitrary,
+        (config, prefixConfig, prefix, baseBody, seed, mutations) => {
+          SecureId.unregisterPrefix('ORD');
+          if (prefixConfig && isValidConfig({ ...prefixConfig, ...config })) {
+            SecureId.registerPrefix('ORD', prefixConfig);
+          }
+
+          // Either a generated ID, or the prefix on a body of the base config
+          const random = createSeededGenerator(seed);
+          const id = mutate(
+            baseBody && prefix
+              ? `${prefix}${config.separator}${SecureId.generate(undefined, { ...config, random })}`
+              : SecureId.generate(prefix, { ...config, random }),
+            mutations
+          );
+
+          expect(toRegExp(config).test(id)).toBe(SecureId.isValid(id, config));
+        }
+      )
+    );
+  });
+
+  it('should match only the given prefixes', () => {
+    fc.assert(
+      fc.property(
+        configArbitrary,
+        fc.constantFrom(undefined, 'USER', 'user', 'TXN', 'ORD'),
+        fc.integer(),
+        mutationArbitrary,
+        (config, prefix, seed, mutations) => {
+          const random = createSeededGenerator(seed);
+          const id = mutate(
+            SecureId.generate(prefix, { ...config, random }),
+            mutations
+          );
+          const accepted =
+            SecureId.isValid(id, config) &&
+            ['USER', 'TXN'].includes(
+              SecureId.parse(id, config).prefix?.toUpperCase() ?? ''
+            );
+
+          expect(toRegExp(config, { prefixes: ['USER', 'TXN'] }).test(id)).toBe(
+            accepted
+          );
+        }
+      )
+    );
+  });
+
+  it('should accept every valid ID when check characters are used', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<Partial<SparkIdConfig>>(
+          { checksum: 'damm' },
+          { checksum: 'luhn', encoding: 'base62' },
+          { checksum: 'mod37', encoding: 'crockford' }
+        ),
+        fc.integer(),
+        mutationArbitrary,
+        (config, seed, mutations) => {
+          const random = createSeededGenerator(seed);
+          const id = mutate(
+            SecureId.generate('USER', { ...config, random }),
+            mutations
+          );
+
+          // Check characters cannot be verified by a regular expression
+          if (SecureId.isValid(id, config)) {
+            expect(toRegExp(config).test(id)).toBe(true);
+          }
+        }
+      )
+    );
+  });
+
+  it('should reject machine IDs beyond the declared width', () => {
+    // 3 bits take one base32 digit: only the first 8 digits are valid
+    const config = { machineIdBits: 3, machineId: 7 };
+    const digits = [...'13456789abcdefghijkmnopqrstuwxyz'];
+    const body = generateId(undefined, config).slice(1);
+
+    digits.forEach((digit, value) => {
+      const id = `${digit}${body}`;
+      expect(SecureId.isValid(id, config)).toBe(value < 8);
+      expect(toRegExp(config).test(id)).toBe(value < 8);
+    });
+  });
+
+  it('should use the config of registered prefixes', () => {
+    SecureId.registerPrefix('ORD', { encoding: 'hex' });
+    const regExp = toRegExp(undefined, { prefixes: ['ORD', 'USER'] });
+
+    expect(regExp.test(generateId('ORD'))).toBe(true);
+    expect(regExp.test(generateId('USER'))).toBe(true);
+    expect(regExp.test(`ORD_${generateId()}`)).toBe(false);
+
+    // Also when prefixes are omitted
+    expect(toRegExp().test(generateId('ORD'))).toBe(true);
+    expect(toRegExp().test(`ord_${generateId()}`)).toBe(false);
+    expect(toRegExp().test(generateId('ORD_ITEM'))).toBe(true);
+  });
+
+  it('should only match registered prefixes in strict mode', () => {
+    SecureId.registerPrefix('ORD');
+    const config = { strictPrefixes: true };
+
+    expect(toRegExp(config).test(generateId('ORD'))).toBe(true);
+    expect(toRegExp(config).test(generateId('USER'))).toBe(false);
+    expect(toRegExp(config).test(generateId())).toBe(false);
+    expect(() => toRegExp(config, { prefixes: ['USER'] })).toThrow(
+      SparkIdError
+    );
+  });
+
+  it('should match bare IDs for an empty prefix list', () => {
+    const regExp = toRegExp(undefined, { prefixes: [] });
+
+    expect(regExp.test(generateId())).toBe(true);
+    expect(regExp.test(generateId('USER'))).toBe(false);
+  });
+
+  it('should find IDs inside text when not anchored', () => {
+    const id = generateId('USER');
+    const regExp = toRegExp(undefined, {
+      prefixes: ['USER'],
+      anchored: false,
+      flags: 'g',
+    });
+
+    expect(`user ${id} logged in`.replace(regExp, '[id]')).toBe(
+      'user [id] logged in'
+    );
+    expect(regExp.flags).toBe('g');
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(() => toPattern(undefined, { prefixes: ['BAD!'] })).toThrow(
+      SparkIdError
+    );
+  });
+});
+
+describe('toPattern', () => {
+  it('should return the source of toRegExp', () => {
+    const config = { encoding: 'hex' as const, length: 8 };
+
+    expect(toPattern(config, { prefixes: ['USER'] })).toBe(
+      '^[Uu][Ss][Ee][Rr]_[0-9A-Fa-f]{8}$'
+    );
+    expect(toRegExp(config).source).toBe(toPattern(config));
+  });
+
+  it('should compile with the unicode flag used by JSON Schema', () => {
+    for (const base of ENCODINGS) {
+      for (const separator of ['_', '.', '~', '::']) {
+        const config = { ...base, separator, machineIdBits: 7 };
+        if (!isValidConfig(config)) continue;
+
+        expect(() => new RegExp(toPattern(config), 'u')).not.toThrow();
+      }
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  InvalidIdError,
+  InvalidPrefixError,
+  SecureId,
+  SparkIdError,
+  clearPrefixes,
+  configure,
+  createGenerator,
+  generateId,
+  getRegisteredPrefixes,
+  isValidId,
+  parseId,
+  registerPrefix,
+  resetConfig,
+  unregisterPrefix,
+  validateId,
+} from '../../src/lib/secure-id';
+
+describe('Prefix registry', () => {
+  afterEach(() => {
+    clearPrefixes();
+    resetConfig();
+  });
+
+  it('should reject malformed prefixes when parsing', () => {
+    const body = generateId();
+
+    expect(isValidId(`USER_${body}`)).toBe(true);
+    expect(isValidId(`FOO!_${body}`)).toBe(false);
+    expect(isValidId(`_${body}`)).toBe(false);
+    expect(() => parseId(`FOO!_${body}`)).toThrow(InvalidIdError);
+  });
+
+  it('should register, list and remove prefixes', () => {
+    registerPrefix('USER');
+    registerPrefix('txn', { encoding: 'hex' });
+
+    expect(getRegisteredPrefixes()).toEqual(['USER', 'TXN']);
+    expect(SecureId.getPrefixConfig('Txn')).toEqual({ encoding: 'hex' });
+    expect(unregisterPrefix('user')).toBe(true);
+    expect(unregisterPrefix('user')).toBe(false);
+    expect(getRegisteredPrefixes()).toEqual(['TXN']);
+  });
+
+  it('should validate prefixes and their config on registration', () => {
+    expect(() => registerPrefix('FOO!')).toThrow(InvalidPrefixError);
+    expect(() =>
+      registerPrefix('FOO', { encoding: 'custom', alphabet: 'a' })
+    ).toThrow(SparkIdError);
+  });
+
+  it('should reject per-prefix fields that decide how IDs are split', () => {
+    for (const config of [
+      { separator: '-' },
+      { maxPrefixLength: 30 },
+      { strictPrefixes: true },
+    ]) {
+      expect(() => registerPrefix('ORD', config)).toThrow(
+        expect.objectContaining({
+          name: 'InvalidConfigError',
+          issues: [expect.objectContaining({ path: Object.keys(config)[0] })],
+        })
+      );
+    }
+    expect(getRegisteredPrefixes()).toEqual([]);
+  });
+
+  it('should round-trip IDs generated with a prefix config', () => {
+    const configs = [
+      { encoding: 'hex' as const, length: 24 },
+      { encoding: 'base62' as const, checksum: 'luhn' as const },
+      {
+        encoding: 'crockford' as const,
+        timestamp: true,
+        case: 'lower' as const,
+      },
+      { machineIdBits: 4, machineId: 9 },
+    ];
+
+    for (const config of configs) {
+      registerPrefix('ORD', config);
+      const id = generateId('ORD');
+
+      expect(isValidId(id)).toBe(true);
+      expect(parseId(id).full).toBe(id);
+    }
+  });
+
+  it('should generate and parse with the prefix config', () => {
+    registerPrefix('TXN', { encoding: 'hex', length: 24 });
+
+    const id = generateId('TXN');
+    expect(id).toMatch(/^TXN_[0-9A-F]{24}$/);
+    expect(isValidId(id)).toBe(true);
+    expect(parseId(id).id).toHaveLength(24);
+
+    // Other prefixes keep the global config
+    expect(isValidId(id.replace('TXN', 'USER'))).toBe(false);
+    expect(isValidId(generateId('USER'))).toBe(true);
+  });
+
+  it('should let per-call config override the prefix config', () => {
+    registerPrefix('TXN', { encoding: 'hex' });
+
+    const id = generateId('TXN', { length: 10 });
+    expect(id).toMatch(/^TXN_[0-9A-F]{10}$/);
+    expect(isValidId(id, { length: 10 })).toBe(true);
+    expect(isValidId(id)).toBe(false);
+  });
+
+  it('should reject unknown prefixes in strict mode', () => {
+    registerPrefix('USER');
+    const strict = { strictPrefixes: true };
+
+    expect(isValidId(generateId('USER'), strict)).toBe(true);
+    expect(isValidId(generateId('TXN'), strict)).toBe(false);
+    expect(validateId(generateId('TXN'), strict)).toEqual({
+      isValid: false,
+      error: 'Unknown prefix',
+      code: 'UNKNOWN_PREFIX',
+    });
+    expect(validateId(generateId(), strict).code).toBe('UNKNOWN_PREFIX');
+    expect(() => parseId(generateId('TXN'), strict)).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_PREFIX' })
+    );
+  });
+
+  it('should apply strict mode from the global config', () => {
+    registerPrefix('USER');
+    configure({ strictPrefixes: true });
+
+    expect(isValidId(generateId('USER'))).toBe(true);
+    expect(isValidId(`ORDER_${SecureId.generateRaw()}`)).toBe(false);
+  });
+
+  it('should not generate IDs strict mode rejects', () => {
+    registerPrefix('USER');
+    configure({ strictPrefixes: true });
+    const unknownPrefix = expect.objectContaining({ code: 'UNKNOWN_PREFIX' });
+
+    expect(() => generateId('NOPE')).toThrow(unknownPrefix);
+    expect(() => generateId()).toThrow(unknownPrefix);
+    expect(() => SecureId.create('NOPE')).toThrow(unknownPrefix);
+    expect(() => [...SecureId.generateBatch(2, 'NOPE')]).toThrow(unknownPrefix);
+    expect(() =>
+      createGenerator({ strictPrefixes: true }).generate('NOPE')
+    ).toThrow(unknownPrefix);
+    expect(isValidId(generateId('user'))).toBe(true);
+  });
+
+  it('should round-trip bytes with the prefix config', () => {
+    registerPrefix('HEX', { encoding: 'hex' });
+    const id = generateId('HEX');
+
+    const bytes = SecureId.toBytes(id);
+    expect(SecureId.fromBytes(bytes, 'HEX').full).toBe(id);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSeededGenerator } from '../../src/lib/random';
+import {
+  SecureId,
+  SparkIdError,
+  configure,
+  generateId,
+  generateMultiple,
+  isValidId,
+  resetConfig,
+} from '../../src/lib/secure-id';
+
+describe('Random sources', () => {
+  afterEach(() => {
+    resetConfig();
+    vi.unstubAllEnvs();
+  });
+
+  it('should use an injected random source', () => {
+    const random = (size: number) => new Uint8Array(size);
+    const id = generateId('USER', { random });
+
+    expect(id).toBe('USER_YYYYYYYYYYYYYYY');
+    expect(isValidId(id)).toBe(true);
+  });
+
+  it('should produce the same sequence for the same seed', () => {
+    const sequence = (seed: number | string) => {
+      const random = createSeededGenerator(seed);
+      return [
+        generateId('USER', { random }),
+        ...generateMultiple(3, 'USER', { random }),
+        SecureId.create('USER', { random }).full,
+      ];
+    };
+
+    const ids = sequence(42);
+    expect(sequence(42)).toEqual(ids);
+    expect(sequence(43)).not.toEqual(ids);
+    expect(sequence('fixtures')).toEqual(sequence('fixtures'));
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach((id) => expect(isValidId(id)).toBe(true));
+  });
+
+  it('should interleave one seeded sequence across APIs', () => {
+    const a = createSeededGenerator(7);
+    const b = createSeededGenerator(7);
+
+    expect(generateMultiple(2, 'TXN', { random: a })).toEqual([
+      SecureId.create('TXN', { random: b }).full,
+      generateId('TXN', { random: b }),
+    ]);
+  });
+
+  it('should apply to every encoding and fixed lengths', () => {
+    const config = { encoding: 'base62' as const, length: 10 };
+    const first = generateId(undefined, {
+      ...config,
+      random: createSeededGenerator(1),
+    });
+
+    expect(
+      generateId(undefined, { ...config, random: createSeededGenerator(1) })
+    ).toBe(first);
+    expect(isValidId(first, config)).toBe(true);
+  });
+
+  it('should accept a global random source', () => {
+    configure({ random: createSeededGenerator('global') });
+    const first = generateId();
+
+    configure({ random: createSeededGenerator('global') });
+    expect(generateId()).toBe(first);
+  });
+
+  it('should reject random sources that return the wrong size', () => {
+    const random = (size: number) => new Uint8Array(size - 1);
+    expect(() => generateId(undefined, { random })).toThrow(SparkIdError);
+  });
+
+  it('should refuse to run in production', () => {
+    const random = createSeededGenerator(1);
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(() => createSeededGenerator(1)).toThrow(
+      expect.objectContaining({ code: 'INSECURE_RANDOM' })
+    );
+    expect(() => generateId(undefined, { random })).toThrow(SparkIdError);
+  });
+});
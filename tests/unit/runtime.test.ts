@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { webCryptoRandomBytes } from '../../src/lib/random';
+import { SparkIdError, generateId, isValidId } from '../../src/lib/secure-id';
+
+describe('Runtime random sources', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should draw from the platform source of this project', () => {
+    const spy = vi.spyOn(globalThis.crypto, 'getRandomValues');
+    const id = generateId('USER');
+
+    expect(isValidId(id)).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(
+      process.env.SPARK_ID_RANDOM === 'web' ? 1 : 0
+    );
+  });
+
+  it('should fill large buffers from Web Crypto in chunks', () => {
+    const spy = vi.spyOn(globalThis.crypto, 'getRandomValues');
+    const bytes = webCryptoRandomBytes(100_000);
+
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(bytes).toHaveLength(100_000);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(bytes.slice(-16).some((byte) => byte !== 0)).toBe(true);
+  });
+
+  it('should fail clearly without Web Crypto', () => {
+    vi.stubGlobal('crypto', undefined);
+
+    expect(() => webCryptoRandomBytes(9)).toThrow(SparkIdError);
+    expect(() => webCryptoRandomBytes(9)).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_RUNTIME' })
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import fc from 'fast-check';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createSeededGenerator } from '../../src/lib/random';
+import { findIds } from '../../src/lib/scan';
+import {
+  InvalidPrefixError,
+  SecureId,
+  generateId,
+  isValidId,
+} from '../../src/lib/secure-id';
+
+describe('findIds', () => {
+  afterEach(() => {
+    SecureId.unregisterPrefix('ORD');
+  });
+
+  it('should return IDs with their offsets and parsed components', () => {
+    const userId = generateId('USER');
+    const txnId = generateId('TXN');
+    const text = `user ${userId} paid (${txnId}), twice`;
+
+    const { ids, invalid } = findIds(text, { prefixes: ['USER', 'TXN'] });
+
+    expect(invalid).toEqual([]);
+    expect(ids).toEqual([
+      {
+        text: userId,
+        start: 5,
+        end: 5 + userId.length,
+        ...SecureId.parse(userId),
+      },
+      {
+        text: txnId,
+        start: text.indexOf(txnId),
+        end: text.indexOf(txnId) + txnId.length,
+        ...SecureId.parse(txnId),
+      },
+    ]);
+    ids.forEach(({ text: id, start, end }) =>
+      expect(text.slice(start, end)).toBe(id)
+    );
+  });
+
+  it('should report candidates that fail validation', () => {
+    const id = generateId('USER');
+    const typo = `${id.slice(0, 8)}!${id.slice(9)}`;
+    const text = `ok ${id}\nbad ${typo}\nshort USER_ABC`;
+
+    const { ids, invalid } = findIds(text, { prefixes: ['USER'] });
+
+    expect(ids.map((match) => match.text)).toEqual([id]);
+    expect(invalid).toMatchObject([
+      {
+        text: typo,
+        start: text.indexOf(typo),
+        code: 'BAD_CHARACTER',
+        position: 8,
+      },
+      { text: 'USER_ABC', code: 'BAD_LENGTH', actualLength: 3 },
+    ]);
+  });
+
+  it('should drop trailing punctuation and split at delimiters', () => {
+    const id = generateId('ORD');
+    const text = `Shipped ${id}. See "${id}"; url=/orders/${id}?x=1 [${id}]!`;
+
+    const { ids } = findIds(text, { prefixes: ['ORD'] });
+
+    expect(ids).toHaveLength(4);
+    ids.forEach((match) => expect(match.text).toBe(id));
+  });
+
+  it('should find IDs in any case', () => {
+    const id = generateId('USER');
+
+    const { ids } = findIds(`id: ${id.toLowerCase()}`, { prefixes: ['user'] });
+
+    expect(ids[0]).toMatchObject({ prefix: 'user', full: id.toLowerCase() });
+  });
+
+  it('should report IDs with a longer prefix as a prefix mismatch', () => {
+    const id = generateId('ORD_ITEM');
+
+    const { ids, invalid } = findIds(id, { prefixes: ['ORD'] });
+
+    expect(ids).toEqual([]);
+    expect(invalid[0]).toMatchObject({ text: id, code: 'PREFIX_MISMATCH' });
+  });
+
+  it('should find any valid ID when prefixes are omitted', () => {
+    const ids = [generateId('USER'), generateId(), generateId('ORG_TEAM')];
+    SecureId.registerPrefix('ORD');
+
+    const result = findIds(`${ids.join(' ')} words ORD_NOPE AB_CD`);
+
+    expect(result.ids.map((match) => match.text)).toEqual(ids);
+    expect(result.invalid).toMatchObject([{ text: 'ORD_NOPE' }]);
+  });
+
+  it('should use the config of registered prefixes', () => {
+    SecureId.registerPrefix('ORD', { encoding: 'hex' });
+    const id = generateId('ORD');
+
+    expect(findIds(`${id},`, { prefixes: ['ORD'] }).ids[0].text).toBe(id);
+  });
+
+  it('should keep Crockford hyphens and check symbols inside IDs', () => {
+    const config = {
+      encoding: 'crockford' as const,
+      checksum: 'mod37' as const,
+    };
+    const id = generateId('ORD', config);
+    const grouped = `${id.slice(0, 8)}-${id.slice(8)}`.toLowerCase();
+
+    const { ids } = findIds(`(${grouped})`, { prefixes: ['ORD'], config });
+
+    expect(ids.map((match) => match.text)).toEqual([grouped]);
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(() => findIds('', { prefixes: ['BAD!'] })).toThrow(
+      InvalidPrefixError
+    );
+  });
+
+  it('should agree with isValidId', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.oneof(
+            fc
+              .constantFrom('USER', 'TXN', 'ORG_TEAM')
+              .chain((prefix) =>
+                fc
+                  .integer()
+                  .map((seed) =>
+                    generateId(prefix, { random: createSeededGenerator(seed) })
+                  )
+              ),
+            fc.string({ unit: fc.constantFrom(...'USER_xyz135!.,"() \n') })
+          ),
+          { maxLength: 6 }
+        ),
+        (parts) => {
+          const text = parts.join('');
+          const { ids } = findIds(text);
+
+          ids.forEach((match) => {
+            expect(text.slice(match.start, match.end)).toBe(match.text);
+            expect(isValidId(match.text)).toBe(true);
+          });
+          text
+            .split(/\s+/)
+            .filter((word) => isValidId(word))
+            .forEach((word) =>
+              expect(ids.map((match) => match.text)).toContain(word)
+            );
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import * as v from 'valibot';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { object } from 'yup';
+import { z } from 'zod';
+import { sparkIdJsonSchema } from '../../src/lib/schema';
+import { SecureId, SparkIdError, generateId } from '../../src/lib/secure-id';
+import { sparkIdSchema as valibotSchema } from '../../src/lib/valibot';
+import { sparkIdSchema as yupSchema } from '../../src/lib/yup';
+import { sparkIdSchema as zodSchema } from '../../src/lib/zod';
+import type { SparkId } from '../../src/types';
+
+describe('Schema integrations', () => {
+  const userId = generateId('USER');
+  const txnId = generateId('TXN');
+
+  describe('Zod', () => {
+    const schema = zodSchema({ prefix: 'USER' });
+
+    it('should accept valid IDs as branded values', () => {
+      const parsed = schema.parse(userId);
+
+      expect(parsed).toBe(userId);
+      expectTypeOf(parsed).toEqualTypeOf<SparkId<'USER'>>();
+    });
+
+    it('should report the validation code as the issue message', () => {
+      const issueOf = (value: unknown) =>
+        schema.safeParse(value).error?.issues[0].message;
+
+      expect(issueOf(txnId)).toBe('PREFIX_MISMATCH');
+      expect(issueOf('USER_ABC')).toBe('BAD_LENGTH');
+      expect(schema.safeParse(42).success).toBe(false);
+    });
+
+    it('should compose with object schemas', () => {
+      const body = z.object({ id: zodSchema() });
+
+      expect(body.parse({ id: txnId }).id).toBe(txnId);
+      expect(body.safeParse({ id: 'USER_ABC' }).error?.issues[0]).toMatchObject(
+        { path: ['id'], message: 'BAD_LENGTH' }
+      );
+    });
+  });
+
+  describe('Valibot', () => {
+    const schema = valibotSchema({ prefix: 'USER' });
+
+    it('should accept valid IDs as branded values', () => {
+      const parsed = v.parse(schema, userId);
+
+      expect(parsed).toBe(userId);
+      expectTypeOf(parsed).toEqualTypeOf<SparkId<'USER'>>();
+    });
+
+    it('should report the validation code as the issue message', () => {
+      expect(v.safeParse(schema, txnId).issues?.[0].message).toBe(
+        'PREFIX_MISMATCH'
+      );
+      expect(v.safeParse(schema, 'USER_AB!').issues?.[0].message).toBe(
+        'BAD_LENGTH'
+      );
+      expect(v.safeParse(schema, 42).success).toBe(false);
+    });
+  });
+
+  describe('Yup', () => {
+    const schema = yupSchema({ prefix: 'USER' });
+
+    it('should accept valid IDs as branded values', async () => {
+      const parsed = await schema.validate(userId);
+
+      expect(parsed).toBe(userId);
+      expectTypeOf(parsed).toEqualTypeOf<SparkId<'USER'> | undefined>();
+      expect(await schema.isValid(undefined)).toBe(true);
+    });
+
+    it('should report the validation code as the error message', async () => {
+      await expect(schema.validate(txnId)).rejects.toThrow('PREFIX_MISMATCH');
+      await expect(
+        object({ id: yupSchema().required() }).validate({ id: 'USER_ABC' })
+      ).rejects.toThrow('BAD_LENGTH');
+    });
+  });
+
+  it('should validate the prefix and config up front', () => {
+    expect(() => zodSchema({ prefix: 'user' })).toThrow(SparkIdError);
+    expect(() => valibotSchema({ config: { entropyBits: 0 } })).toThrow(
+      SparkIdError
+    );
+    expect(() => yupSchema({ prefix: 'BAD!' })).toThrow(SparkIdError);
+  });
+});
+
+describe('JSON Schema', () => {
+  const matches = (
+    schema: { pattern: string },
+    value: string,
+    flags = ''
+  ): boolean => new RegExp(schema.pattern, flags).test(value);
+
+  it('should emit a pattern for the prefix and body', () => {
+    const schema = sparkIdJsonSchema({ prefix: 'USER' });
+    const body = generateId().toLowerCase();
+
+    expect(schema.type).toBe('string');
+    expect(matches(schema, generateId('USER'))).toBe(true);
+    expect(matches(schema, `USER_${body}`)).toBe(true);
+    expect(matches(schema, `user_${body}`)).toBe(false);
+    expect(matches(schema, generateId('TXN'))).toBe(false);
+    expect(matches(schema, `USER_${body.slice(1)}`)).toBe(false);
+    expect(matches(schema, `USER_${body.slice(1)}!`)).toBe(false);
+  });
+
+  it('should agree with the schema builders', () => {
+    const cases = [
+      { prefix: 'USER' },
+      { prefix: 'user', config: { case: 'lower' as const } },
+      { prefix: 'Org_Team', config: { case: 'mixed' as const } },
+      { config: { encoding: 'hex' as const } },
+    ];
+
+    for (const options of cases) {
+      const jsonSchema = sparkIdJsonSchema(options);
+      const schema = zodSchema(options);
+      const id = generateId(options.prefix, options.config);
+      const body = id.slice(id.length - 15);
+      const inputs = [
+        id,
+        id.toLowerCase(),
+        id.toUpperCase(),
+        `${id.slice(0, -body.length)}${body.toLowerCase()}`,
+        generateId('TXN', options.config),
+        generateId(undefined, options.config),
+        `${id}x`,
+      ];
+
+      for (const input of inputs) {
+        expect(matches(jsonSchema, input)).toBe(
+          schema.safeParse(input).success
+        );
+      }
+    }
+  });
+
+  it('should accept any prefix, or none, when omitted', () => {
+    const schema = sparkIdJsonSchema();
+
+    expect(matches(schema, generateId('ORG_TEAM'))).toBe(true);
+    expect(matches(schema, generateId())).toBe(true);
+    expect(matches(schema, `${'A'.repeat(21)}_${generateId()}`)).toBe(false);
+  });
+
+  it('should follow the configured alphabet, separator and length', () => {
+    const configs = [
+      { encoding: 'hex' as const, separator: '.', length: 12 },
+      { encoding: 'base62' as const, separator: '::' },
+      {
+        encoding: 'base64' as const,
+        separator: '.',
+        checksum: 'damm' as const,
+      },
+      { encoding: 'crockford' as const, checksum: 'mod37' as const },
+      { timestamp: true, case: 'lower' as const },
+    ];
+
+    for (const config of configs) {
+      const schema = sparkIdJsonSchema({ prefix: 'ORD', config });
+      const id = generateId('ORD', config);
+
+      // JSON Schema validators compile patterns with the `u` flag
+      expect(matches(schema, id, 'u')).toBe(true);
+      expect(matches(schema, `${id}x`, 'u')).toBe(false);
+      expect(SecureId.isValid(id, config)).toBe(true);
+    }
+  });
+
+  it('should accept lenient Crockford spellings', () => {
+    const config = { encoding: 'crockford' as const };
+    const schema = sparkIdJsonSchema({ prefix: 'ORD', config });
+    const id = generateId('ORD', config);
+    const grouped = `${id.slice(0, 8)}-${id.slice(8).toLowerCase()}`;
+
+    expect(SecureId.isValid(grouped, config)).toBe(true);
+    expect(matches(schema, grouped)).toBe(true);
+  });
+});
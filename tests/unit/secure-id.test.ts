@@ -24,7 +24,7 @@ describe('SecureId Generator', () => {
 
   it('should generate IDs with prefixes', () => {
     const userId = generateId('USER');
-    expect(userId).toMatch(/^USER_[YVNDRFG9EJKMCPQXWT2UWXSZA345H769]+$/);
+    expect(userId).toMatch(/^USER_[YBNDRFG8EJKMCPQXOT1UWISZA345H769]+$/);
     expect(isValidId(userId)).toBe(true);
   });
 
@@ -92,6 +92,7 @@ describe('SecureId Generator', () => {
     const parsed2 = parseId(testPrefixedId);
     expect(parsed2).toEqual({
       prefix: 'USER',
+      prefixPath: ['USER'],
       id: testPrefixedId.split('_')[1],
       full: testPrefixedId,
     });
@@ -129,7 +130,7 @@ describe('SecureId Generator', () => {
   });
 
   it('should only use Z-Base32 alphabet characters', () => {
-    const zBase32Alphabet = 'yvndrfg9ejkmcpqxwt2uwxsza345h769';
+    const zBase32Alphabet = 'ybndrfg8ejkmcpqxot1uwisza345h769';
     const id = generateId();
 
     for (const char of id) {
@@ -0,0 +1,111 @@
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { describe, expect, it } from 'vitest';
+import { generateAsyncIterable } from '../../src/lib/stream';
+import { generateStream } from '../../src/lib/stream-node';
+import {
+  InvalidPrefixError,
+  SparkIdError,
+  isValidId,
+} from '../../src/lib/secure-id';
+
+async function collect(iterable: AsyncIterable<unknown>): Promise<unknown[]> {
+  const items: unknown[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('Async iterable', () => {
+  it('should yield the requested number of IDs', async () => {
+    const ids = (await collect(
+      generateAsyncIterable({ prefix: 'JOB', count: 3000 })
+    )) as string[];
+
+    expect(ids).toHaveLength(3000);
+    expect(new Set(ids).size).toBe(3000);
+    expect(ids.every((id) => id.startsWith('JOB_'))).toBe(true);
+    expect(isValidId(ids[0])).toBe(true);
+  });
+
+  it('should generate without bound until the consumer stops', async () => {
+    let count = 0;
+    for await (const id of generateAsyncIterable({
+      config: { encoding: 'hex' },
+    })) {
+      expect(id).toHaveLength(18);
+      if (++count === 5000) break;
+    }
+    expect(count).toBe(5000);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let count = 0;
+
+    await expect(async () => {
+      for await (const _ of generateAsyncIterable({
+        signal: controller.signal,
+      })) {
+        if (++count === 10) controller.abort();
+      }
+    }).rejects.toThrow(/abort/i);
+    expect(count).toBe(10);
+  });
+
+  it('should validate options eagerly', () => {
+    expect(() => generateAsyncIterable({ prefix: 'BAD!' })).toThrow(
+      InvalidPrefixError
+    );
+    expect(() => generateAsyncIterable({ count: -1 })).toThrow(SparkIdError);
+  });
+});
+
+describe('Node stream', () => {
+  it('should emit IDs in object mode', async () => {
+    const ids = (await collect(
+      generateStream({ prefix: 'ROW', count: 100 })
+    )) as string[];
+
+    expect(ids).toHaveLength(100);
+    expect(ids.every((id) => isValidId(id))).toBe(true);
+  });
+
+  it('should emit newline-delimited text', async () => {
+    const chunks = await collect(
+      generateStream({ count: 50, mode: 'newline' })
+    );
+    const lines = chunks.join('').split('\n');
+
+    expect(lines.pop()).toBe('');
+    expect(lines).toHaveLength(50);
+    expect(lines.every((line) => isValidId(line))).toBe(true);
+  });
+
+  it('should respect backpressure', async () => {
+    const stream = generateStream({ highWaterMark: 16 });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Nothing consumes the stream, so generation stops at the buffer limit
+    expect(stream.readableLength).toBeLessThanOrEqual(16);
+    stream.destroy();
+  });
+
+  it('should pipe unbounded streams into slow consumers', async () => {
+    const controller = new AbortController();
+    let received = 0;
+
+    const sink = new Writable({
+      objectMode: true,
+      highWaterMark: 4,
+      write(_id, _encoding, callback) {
+        if (++received === 200) controller.abort();
+        setImmediate(callback);
+      },
+    });
+
+    await expect(
+      pipeline(generateStream({ signal: controller.signal }), sink)
+    ).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+    expect(received).toBe(200);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateId, isValidId, parseId } from '../../src/lib/secure-id';
+
+describe('Time-ordered IDs', () => {
+  const config = { timestamp: true };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should generate valid IDs in timestamp mode', () => {
+    const id = generateId('USER', config);
+    expect(isValidId(id, config)).toBe(true);
+    expect(isValidId(id)).toBe(false); // body is longer than a plain ID
+  });
+
+  it('should sort lexically in creation order', () => {
+    const ids = Array.from({ length: 2000 }, () =>
+      generateId(undefined, config)
+    );
+    expect([...ids].sort()).toEqual(ids);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should keep order with lowercase output', () => {
+    const lower = { ...config, case: 'lower' as const };
+    const ids = Array.from({ length: 200 }, () => generateId('usr', lower));
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  it('should keep order when the case changes how characters sort', () => {
+    // `_` sorts before lowercase letters but after uppercase ones
+    const custom = {
+      ...config,
+      alphabet: 'abcdefghijklmnopqrstuvwxyz23456_',
+      separator: '-',
+      case: 'upper' as const,
+    };
+
+    // Within one millisecond the counter runs through every digit
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now());
+    const ids = Array.from({ length: 2000 }, () => generateId('ORD', custom));
+
+    expect(ids.some((id) => id.slice(4, 16).includes('_'))).toBe(true);
+    expect([...ids].sort()).toEqual(ids);
+    const time = parseId(ids[0], custom).timestamp!.getTime();
+    expect(time - Date.now()).toBeGreaterThanOrEqual(0);
+    expect(time - Date.now()).toBeLessThan(1000);
+  });
+
+  it('should return the embedded creation time from parseId', () => {
+    const before = Date.now();
+    const id = generateId('TXN', config);
+
+    const parsed = parseId(id, config);
+    expect(parsed.prefix).toBe('TXN');
+    expect(parsed.timestamp).toBeInstanceOf(Date);
+    expect(parsed.timestamp!.getTime()).toBeGreaterThanOrEqual(before);
+    // Counter overflow may borrow a few milliseconds from the future
+    expect(parsed.timestamp!.getTime() - before).toBeLessThan(1000);
+  });
+
+  it('should not report a timestamp for plain IDs', () => {
+    expect(parseId(generateId()).timestamp).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSeededGenerator } from '../../src/lib/random';
+import { SparkIdError, generateId } from '../../src/lib/secure-id';
+import { createFileStore } from '../../src/lib/store-node';
+import { UniqueIdGenerator, createMemoryStore } from '../../src/lib/unique';
+import type { SparkIdStore } from '../../src/types';
+
+describe('UniqueIdGenerator', () => {
+  it('should reserve IDs in the store', async () => {
+    const store = createMemoryStore();
+    const users = new UniqueIdGenerator({ store, prefix: 'USER' });
+
+    const id = await users.generate();
+    expect(id).toMatch(/^USER_/);
+    expect(await store.exists(id)).toBe(true);
+    expect(await store.reserve(id)).toBe(false);
+    expect(users.getMetrics()).toEqual({
+      generated: 1,
+      attempts: 1,
+      collisions: 0,
+      failures: 0,
+    });
+  });
+
+  it('should retry on collision', async () => {
+    // Replay the same seed so the first candidate is already taken
+    const config = { random: createSeededGenerator(1) };
+    const taken = generateId('TXN', { random: createSeededGenerator(1) });
+    const generator = new UniqueIdGenerator({
+      store: createMemoryStore([taken]),
+      prefix: 'TXN',
+      config,
+    });
+
+    const id = await generator.generate();
+    expect(id).not.toBe(taken);
+    expect(generator.getMetrics()).toMatchObject({
+      generated: 1,
+      attempts: 2,
+      collisions: 1,
+    });
+  });
+
+  it('should treat failed reservations as collisions', async () => {
+    let reservations = 0;
+    const store: SparkIdStore = {
+      exists: async () => false,
+      // Another writer wins the first race
+      reserve: async () => ++reservations > 1,
+    };
+    const generator = new UniqueIdGenerator({ store });
+
+    await generator.generate();
+    expect(generator.getMetrics().collisions).toBe(1);
+  });
+
+  it('should throw GENERATION_FAILED when the retry budget runs out', async () => {
+    const store: SparkIdStore = {
+      exists: async () => true,
+      reserve: async () => true,
+    };
+    const generator = new UniqueIdGenerator({ store, maxRetries: 2 });
+
+    await expect(generator.generate()).rejects.toThrow(
+      expect.objectContaining({
+        code: 'GENERATION_FAILED',
+        message: 'Failed to generate a unique ID after 3 attempts',
+      })
+    );
+    expect(generator.getMetrics()).toEqual({
+      generated: 0,
+      attempts: 3,
+      collisions: 3,
+      failures: 1,
+    });
+
+    generator.resetMetrics();
+    expect(generator.getMetrics().attempts).toBe(0);
+  });
+
+  it('should fill a small ID space exactly once', async () => {
+    // 16 possible IDs
+    const generator = new UniqueIdGenerator({
+      store: createMemoryStore(),
+      config: { encoding: 'hex', length: 1 },
+      maxRetries: 10_000,
+    });
+
+    const ids = new Set<string>();
+    for (let i = 0; i < 16; i++) ids.add(await generator.generate());
+
+    expect(ids.size).toBe(16);
+    await expect(generator.generate()).rejects.toThrow(SparkIdError);
+  });
+
+  it('should propagate store errors', async () => {
+    const store: SparkIdStore = {
+      exists: async () => {
+        throw new Error('connection lost');
+      },
+      reserve: async () => true,
+    };
+
+    await expect(new UniqueIdGenerator({ store }).generate()).rejects.toThrow(
+      'connection lost'
+    );
+  });
+
+  it('should validate its options up front', () => {
+    const store = createMemoryStore();
+
+    expect(() => new UniqueIdGenerator({ store: {} as SparkIdStore })).toThrow(
+      expect.objectContaining({ code: 'INVALID_STORE' })
+    );
+    expect(() => new UniqueIdGenerator({ store, maxRetries: -1 })).toThrow(
+      SparkIdError
+    );
+    expect(() => new UniqueIdGenerator({ store, prefix: 'BAD!' })).toThrow(
+      SparkIdError
+    );
+    expect(
+      () => new UniqueIdGenerator({ store, config: { entropyBits: 0 } })
+    ).toThrow(SparkIdError);
+  });
+});
+
+describe('createFileStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'spark-id-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist reserved IDs', async () => {
+    const path = join(dir, 'ids.txt');
+    const generator = new UniqueIdGenerator({
+      store: createFileStore(path),
+      prefix: 'INV',
+    });
+
+    const ids = [await generator.generate(), await generator.generate()];
+    expect(await readFile(path, 'utf8')).toBe(`${ids.join('\n')}\n`);
+
+    // A new store sees the IDs written before
+    const reopened = createFileStore(path);
+    expect(await reopened.exists(ids[0])).toBe(true);
+    expect(await reopened.reserve(ids[1])).toBe(false);
+    expect(await reopened.exists('INV_OTHER')).toBe(false);
+  });
+
+  it('should load existing files and reserve concurrently once', async () => {
+    const path = join(dir, 'ids.txt');
+    await writeFile(path, 'A\nB\n');
+    const store = createFileStore(path);
+
+    expect(await store.exists('B')).toBe(true);
+    expect(await Promise.all([store.reserve('C'), store.reserve('C')])).toEqual(
+      [true, false]
+    );
+    expect(await readFile(path, 'utf8')).toBe('A\nB\nC\n');
+  });
+});
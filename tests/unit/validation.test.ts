@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { ENCODING_ALPHABETS } from '../../src/lib/encoding';
+import { findIds } from '../../src/lib/scan';
+import {
+  InvalidIdError,
+  SecureId,
+  generateId,
+  isValidId,
+  validateId,
+} from '../../src/lib/secure-id';
+import { getTimestampLength } from '../../src/lib/timestamp';
+
+describe('Validation diagnostics', () => {
+  const id = generateId('USER');
+  const body = id.slice('USER_'.length);
+
+  it('should accept canonical IDs without a suggestion', () => {
+    expect(validateId(id)).toEqual({
+      isValid: true,
+      error: undefined,
+      code: undefined,
+    });
+    expect(SecureId.validate(id)).toEqual(validateId(id));
+  });
+
+  it('should report expected and actual lengths', () => {
+    expect(validateId('USER_ABC')).toEqual({
+      isValid: false,
+      error: 'Wrong length',
+      code: 'BAD_LENGTH',
+      expectedLength: body.length,
+      actualLength: 3,
+    });
+    expect(validateId('')).toMatchObject({
+      code: 'BAD_LENGTH',
+      expectedLength: body.length,
+      actualLength: 0,
+    });
+  });
+
+  it('should report the position of an invalid character', () => {
+    const broken = `${id.slice(0, 8)}!${id.slice(9)}`;
+
+    expect(validateId(broken)).toEqual({
+      isValid: false,
+      error: 'Invalid character',
+      code: 'BAD_CHARACTER',
+      position: 8,
+    });
+    expect(validateId(body.replace(/.$/, '!')).position).toBe(body.length - 1);
+  });
+
+  it('should count hyphens in lenient Crockford bodies', () => {
+    const config = { encoding: 'crockford' as const };
+    const ord = generateId('ORD', config);
+    const grouped = `ORD_${ord.slice(4, 8)}-${ord.slice(8, 11)}!${ord.slice(12)}`;
+
+    expect(validateId(grouped, config)).toMatchObject({
+      code: 'BAD_CHARACTER',
+      position: 12,
+    });
+  });
+
+  it('should report the position of an invalid prefix', () => {
+    expect(validateId(`US!ER_${body}`)).toEqual({
+      isValid: false,
+      error: 'Invalid prefix',
+      code: 'BAD_PREFIX',
+      position: 2,
+    });
+    expect(validateId(`${'A'.repeat(21)}_${body}`)).toMatchObject({
+      code: 'BAD_PREFIX',
+      position: 20,
+    });
+  });
+
+  it('should report the position of an out-of-range machine ID', () => {
+    // 3 bits take one base32 digit, and 'z' reads as 23
+    const config = { machineIdBits: 3, machineId: 5 };
+    const tagged = generateId('USER', config);
+    const outOfRange = `${tagged.slice(0, 5)}Z${tagged.slice(6)}`;
+
+    expect(validateId(outOfRange, config)).toEqual({
+      isValid: false,
+      error: 'Machine ID out of range',
+      code: 'BAD_MACHINE_ID',
+      position: 5,
+    });
+
+    // After the timestamp, and past Crockford hyphens
+    const crockford = {
+      encoding: 'crockford' as const,
+      timestamp: true,
+      machineIdBits: 3,
+      machineId: 5,
+    };
+    const ord = generateId('ORD', crockford);
+    const slot =
+      'ORD_'.length + getTimestampLength(ENCODING_ALPHABETS.crockford!);
+    const grouped = `${ord.slice(0, 8)}-${ord.slice(8, slot)}Z${ord.slice(slot + 1)}`;
+
+    expect(validateId(grouped, crockford)).toMatchObject({
+      code: 'BAD_MACHINE_ID',
+      position: slot + 1,
+    });
+  });
+
+  it('should report separators inside the prefix', () => {
+    const config = { separator: '-' };
+    const dashed = generateId('USER', config).replace('-', '-X-');
+
+    expect(validateId(dashed, config)).toEqual({
+      isValid: false,
+      error: 'Too many separators',
+      code: 'TOO_MANY_SEPARATORS',
+      position: 4,
+    });
+  });
+
+  it('should reject long separator-heavy input in linear time', () => {
+    const inputs = [
+      '_'.repeat(20000),
+      'a_'.repeat(10000),
+      `${'A_'.repeat(9)}${body}`.repeat(500),
+    ];
+    const start = performance.now();
+
+    for (const input of inputs) {
+      expect(isValidId(input)).toBe(false);
+      expect(validateId(input).code).toBe('BAD_PREFIX');
+      findIds(input);
+    }
+
+    // Trying every split took seconds per input
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  it('should suggest the canonical form when only the case is off', () => {
+    expect(validateId(id.toLowerCase())).toEqual({
+      isValid: true,
+      error: undefined,
+      code: undefined,
+      suggestion: id,
+    });
+    expect(validateId(`user_${body}`).suggestion).toBe(id);
+    expect(validateId(body.toLowerCase()).suggestion).toBe(body);
+
+    // Other normalizations are not case fixes
+    const config = { encoding: 'crockford' as const };
+    const ord = generateId('ORD', config);
+    expect(
+      validateId(`${ord.slice(0, 8)}-${ord.slice(8)}`, config)
+    ).not.toHaveProperty('suggestion');
+  });
+
+  it('should attach diagnostics to parse errors', () => {
+    try {
+      SecureId.parse('USER_ABC');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidIdError);
+      expect((error as InvalidIdError).code).toBe('BAD_LENGTH');
+      expect((error as InvalidIdError).diagnostics).toEqual({
+        expectedLength: body.length,
+        actualLength: 3,
+      });
+    }
+  });
+});
@@ -6,6 +6,24 @@ export default defineConfig({
       provider: 'v8',
       reporter: ['text', 'json', 'html'],
       exclude: ['node_modules/', 'dist/', '**/*.test.ts', '**/*.spec.ts']
-    }
+    },
+    // Run the same suite against both random sources
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'node-crypto',
+          setupFiles: ['./tests/setup/node-crypto.ts'],
+          env: { SPARK_ID_RANDOM: 'node' }
+        }
+      },
+      {
+        extends: true,
+        test: {
+          name: 'web-crypto',
+          env: { SPARK_ID_RANDOM: 'web' }
+        }
+      }
+    ]
   }
 });